@@ -0,0 +1,153 @@
+import { ANNOTATION_KINDS, isAnnotationKind } from './annotations';
+import type { Annotation } from './annotations';
+import type { LevelData } from './dataParser';
+import { labelled } from './orderMenu';
+
+interface AnnotationMenuConfig {
+  /** The level markers and callouts are attached to, or undefined when nothing is selected */
+  getSelectedLevel: () => LevelData | undefined;
+  onAdd: (annotation: Annotation) => void;
+  /** Removes the viewer's annotation at this position of the list given to `setAnnotations()` */
+  onRemove: (index: number) => void;
+}
+
+function describeAnnotation(annotation: Annotation): string {
+  return annotation.kind === 'line'
+    ? `${annotation.label} (line at ${annotation.difficulty.toLocaleString()})`
+    : `${annotation.label} (${annotation.kind} on ${annotation.level})`;
+}
+
+/**
+ * Dropdown for adding reference lines and level markers or callouts, and removing the viewer's
+ * own. Annotations that come with the level list can't be removed here.
+ */
+export class AnnotationMenu {
+  readonly element: HTMLDetailsElement;
+  private config: AnnotationMenuConfig;
+  private summary!: HTMLElement;
+  private kindSelect!: HTMLSelectElement;
+  private labelInput!: HTMLInputElement;
+  private difficultyLabel!: HTMLLabelElement;
+  private difficultyInput!: HTMLInputElement;
+  private target!: HTMLParagraphElement;
+  private addButton!: HTMLButtonElement;
+  private list!: HTMLUListElement;
+
+  constructor(config: AnnotationMenuConfig) {
+    this.config = config;
+    this.element = document.createElement('details');
+    this.element.className = 'annotation-menu';
+    this.createElements();
+    this.setAnnotations([]);
+  }
+
+  private createElements(): void {
+    this.summary = document.createElement('summary');
+    this.summary.className = 'nav-button annotation-toggle';
+    this.element.appendChild(this.summary);
+    // The form follows whichever level is selected when the menu opens
+    this.element.addEventListener('toggle', () => {
+      if (this.element.open) this.prefill();
+    });
+
+    const panel = document.createElement('div');
+    panel.className = 'annotation-options';
+
+    this.kindSelect = document.createElement('select');
+    ANNOTATION_KINDS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.kindSelect.appendChild(option);
+    });
+    this.kindSelect.addEventListener('change', () => this.refresh());
+
+    this.labelInput = document.createElement('input');
+    this.labelInput.type = 'text';
+    this.labelInput.placeholder = 'e.g. My hardest completion';
+    this.labelInput.addEventListener('input', () => this.refresh());
+    this.labelInput.addEventListener('keydown', (ev: KeyboardEvent) => {
+      if (ev.key === 'Enter') this.add();
+    });
+
+    this.difficultyInput = document.createElement('input');
+    this.difficultyInput.type = 'number';
+    this.difficultyInput.step = 'any';
+    this.difficultyInput.addEventListener('input', () => this.refresh());
+    this.difficultyLabel = labelled('Difficulty', this.difficultyInput);
+
+    this.target = document.createElement('p');
+    this.target.className = 'annotation-target';
+
+    this.addButton = document.createElement('button');
+    this.addButton.className = 'nav-button';
+    this.addButton.textContent = 'Add';
+    this.addButton.addEventListener('click', () => this.add());
+
+    this.list = document.createElement('ul');
+    this.list.className = 'annotation-list';
+
+    panel.appendChild(labelled('Type', this.kindSelect));
+    panel.appendChild(labelled('Label', this.labelInput));
+    panel.appendChild(this.difficultyLabel);
+    panel.appendChild(this.target);
+    panel.appendChild(this.addButton);
+    panel.appendChild(this.list);
+    this.element.appendChild(panel);
+  }
+
+  /** Lists the viewer's own annotations, each with a Remove button. */
+  public setAnnotations(annotations: Annotation[]): void {
+    this.summary.textContent = annotations.length > 0 ? `Annotations (${annotations.length})` : 'Annotations';
+    this.list.replaceChildren(...annotations.map((annotation, index) => {
+      const item = document.createElement('li');
+      const text = document.createElement('span');
+      text.textContent = describeAnnotation(annotation);
+      const removeButton = document.createElement('button');
+      removeButton.className = 'compare-unpin';
+      removeButton.textContent = 'Remove';
+      removeButton.setAttribute('aria-label', `Remove ${annotation.label}`);
+      removeButton.addEventListener('click', () => this.config.onRemove(index));
+      item.appendChild(text);
+      item.appendChild(removeButton);
+      return item;
+    }));
+  }
+
+  // A reference line starts at the selected level's difficulty, the usual thing to mark
+  private prefill(): void {
+    const level = this.config.getSelectedLevel();
+    if (level && this.difficultyInput.value === '') this.difficultyInput.value = String(level.difficulty);
+    this.refresh();
+  }
+
+  /** Updates the form for the chosen type and the level that is selected now. */
+  public refresh(): void {
+    const isLine = this.kindSelect.value === 'line';
+    const level = this.config.getSelectedLevel();
+    this.difficultyLabel.hidden = !isLine;
+    this.target.hidden = isLine;
+    this.target.textContent = level ? `On ${level.name}` : 'Select a level first.';
+    this.addButton.disabled = this.build() === null;
+  }
+
+  private build(): Annotation | null {
+    const kind = this.kindSelect.value;
+    const label = this.labelInput.value.trim();
+    if (!isAnnotationKind(kind) || !label) return null;
+    if (kind === 'line') {
+      const difficulty = this.difficultyInput.value.trim() === '' ? NaN : Number(this.difficultyInput.value);
+      return Number.isFinite(difficulty) ? { kind, label, difficulty } : null;
+    }
+    const level = this.config.getSelectedLevel();
+    return level ? { kind, label, level: level.name } : null;
+  }
+
+  private add(): void {
+    const annotation = this.build();
+    if (!annotation) return;
+    this.config.onAdd(annotation);
+    this.labelInput.value = '';
+    this.refresh();
+  }
+}
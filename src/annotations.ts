@@ -0,0 +1,68 @@
+import { safeStorage } from './safeStorage';
+
+/**
+ * A note drawn on the chart: a horizontal reference line at a difficulty, or a vertical marker
+ * or callout label on one level (matched by name, so it follows the bar when the list is
+ * re-sorted or refreshed).
+ */
+export type Annotation =
+  | { kind: 'line'; label: string; difficulty: number }
+  | { kind: 'marker' | 'callout'; label: string; level: string };
+
+export type AnnotationKind = Annotation['kind'];
+
+export const ANNOTATION_KINDS: { value: AnnotationKind; label: string }[] = [
+  { value: 'line', label: 'Reference line' },
+  { value: 'marker', label: 'Marker' },
+  { value: 'callout', label: 'Callout' }
+];
+
+const ANNOTATION_STORAGE_PREFIX = 'gd-viz:annotations:';
+
+export function isAnnotationKind(value: unknown): value is AnnotationKind {
+  return ANNOTATION_KINDS.some(option => option.value === value);
+}
+
+function toAnnotation(raw: unknown): Annotation | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { kind, label, difficulty, level } = raw as Record<string, unknown>;
+  if (!isAnnotationKind(kind) || typeof label !== 'string' || !label.trim()) return null;
+  if (kind === 'line') {
+    return typeof difficulty === 'number' && Number.isFinite(difficulty)
+      ? { kind, label: label.trim(), difficulty }
+      : null;
+  }
+  return typeof level === 'string' && level.trim() ? { kind, label: label.trim(), level: level.trim() } : null;
+}
+
+/**
+ * Reads an `annotations` array from a level list or local storage. Malformed entries (unknown
+ * kind, empty label, a line without a finite difficulty, a marker without a level) are dropped
+ * with a warning; annotations on levels that aren't in the list are kept but not drawn.
+ */
+export function parseAnnotations(raw: unknown): Annotation[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    console.warn('Ignoring annotations: expected an array');
+    return [];
+  }
+  return raw.flatMap((entry, index) => {
+    const annotation = toAnnotation(entry);
+    if (!annotation) console.warn(`Ignoring annotation ${index}: needs a kind, a label and a difficulty or level`);
+    return annotation ? [annotation] : [];
+  });
+}
+
+// A corrupt saved entry starts over without annotations
+export function readAnnotations(storageKey: string): Annotation[] {
+  const stored = safeStorage.get(ANNOTATION_STORAGE_PREFIX + storageKey);
+  try {
+    return stored ? parseAnnotations(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeAnnotations(storageKey: string, annotations: Annotation[]): void {
+  safeStorage.set(ANNOTATION_STORAGE_PREFIX + storageKey, JSON.stringify(annotations), 'annotations');
+}
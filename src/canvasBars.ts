@@ -0,0 +1,183 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** One bar in the layer's coordinates. Colours may be CSS variables such as `var(--bar)`. */
+export interface CanvasBar {
+  key: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+/** A full-height column painted behind one bar (hover and press-and-drag highlights). */
+export interface CanvasHighlight {
+  key: string;
+  color: string;
+}
+
+/** A set of bars outlined in one style, e.g. pinned or beaten levels. Later outlines draw on top. */
+export interface CanvasOutline {
+  keys: Set<string>;
+  color: string;
+  width: number;
+  /** Dash pattern as for `setLineDash()`; solid when omitted */
+  dash?: number[];
+}
+
+interface BarTween {
+  from: CanvasBar;
+  to: CanvasBar;
+  exiting: boolean;
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+/**
+ * Bars drawn onto a single canvas, wrapped in a `<foreignObject>` so it can sit in the chart's
+ * SVG between the tier bands and the axes and share its clip path. Bars are matched by key
+ * between updates: `setBars()` records where each one starts and ends, and `render(t)` draws
+ * every bar at that point of the animation in one pass, so a reveal costs one redraw per frame
+ * however many levels there are.
+ */
+export class CanvasBarLayer {
+  public readonly element: SVGForeignObjectElement;
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D | null;
+  private opacity: number;
+  private width = 0;
+  private height = 0;
+  private tweens: BarTween[] = [];
+  private current: CanvasBar[] = [];
+  private highlights: CanvasHighlight[] = [];
+  private outlines: CanvasOutline[] = [];
+
+  constructor(className: string, opacity = 1) {
+    this.opacity = opacity;
+    this.element = document.createElementNS(SVG_NS, 'foreignObject');
+    this.element.setAttribute('class', `canvas-layer ${className}`);
+    this.element.style.pointerEvents = 'none';
+    this.canvas = document.createElement('canvas');
+    this.canvas.style.display = 'block';
+    this.element.appendChild(this.canvas);
+    this.context = this.canvas.getContext('2d');
+  }
+
+  // The backing store follows the device pixel ratio so bars stay sharp on high-DPI screens
+  public resize(width: number, height: number): void {
+    width = Math.max(0, width);
+    height = Math.max(0, height);
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    const ratio = window.devicePixelRatio || 1;
+    this.element.setAttribute('width', String(width));
+    this.element.setAttribute('height', String(height));
+    this.canvas.width = Math.round(width * ratio);
+    this.canvas.height = Math.round(height * ratio);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.context?.setTransform(ratio, 0, 0, ratio, 0, 0);
+    this.draw();
+  }
+
+  /**
+   * Sets where the bars should end up. Bars already on the canvas animate from where they are
+   * now (even mid-transition), new ones grow from `baseline` and removed ones shrink into it.
+   */
+  public setBars(bars: CanvasBar[], baseline: number): void {
+    const previous = new Map(this.current.map(bar => [bar.key, bar]));
+    const next = new Set(bars.map(bar => bar.key));
+    this.tweens = bars.map(to => ({
+      from: previous.get(to.key) ?? { ...to, y: baseline, height: 0 },
+      to,
+      exiting: false
+    }));
+    previous.forEach((bar, key) => {
+      if (!next.has(key)) this.tweens.push({ from: bar, to: { ...bar, y: baseline, height: 0 }, exiting: true });
+    });
+  }
+
+  /** Draws every bar at eased time `t` (0–1) between its previous and target position. */
+  public render(t: number): void {
+    const settled = t >= 1;
+    this.current = this.tweens
+      .filter(tween => !(settled && tween.exiting))
+      .map(({ from, to }) => settled ? to : {
+        ...to,
+        x: lerp(from.x, to.x, t),
+        y: lerp(from.y, to.y, t),
+        width: lerp(from.width, to.width, t),
+        height: lerp(from.height, to.height, t)
+      });
+    this.draw();
+  }
+
+  public setHighlights(highlights: CanvasHighlight[]): void {
+    this.highlights = highlights;
+    this.draw();
+  }
+
+  /** Outlines bars by key, e.g. the viewer's progress and pinned levels. */
+  public setOutlines(outlines: CanvasOutline[]): void {
+    this.outlines = outlines;
+    this.draw();
+  }
+
+  /** Repaints the bars where they are, e.g. after the theme changed. */
+  public draw(): void {
+    const context = this.context;
+    if (!context) return;
+    context.clearRect(0, 0, this.width, this.height);
+    const colors = new Map<string, string>();
+    const resolve = (color: string) => {
+      if (!colors.has(color)) colors.set(color, this.resolveColor(color));
+      return colors.get(color)!;
+    };
+
+    const onCanvas = this.current.filter(bar => bar.x + bar.width >= 0 && bar.x <= this.width);
+    const byKey = new Map(onCanvas.map(bar => [bar.key, bar]));
+    this.highlights.forEach(({ key, color }) => {
+      const bar = byKey.get(key);
+      if (!bar) return;
+      context.fillStyle = resolve(color);
+      context.fillRect(bar.x, 0, bar.width, this.height);
+    });
+
+    // One path per colour keeps the number of fill calls down to the number of tiers
+    const byColor = new Map<string, CanvasBar[]>();
+    onCanvas.forEach(bar => {
+      const color = resolve(bar.color);
+      const group = byColor.get(color);
+      if (group) group.push(bar); else byColor.set(color, [bar]);
+    });
+    context.globalAlpha = this.opacity;
+    byColor.forEach((bars, color) => {
+      context.fillStyle = color;
+      context.beginPath();
+      bars.forEach(bar => context.rect(bar.x, bar.y, bar.width, Math.max(0, bar.height)));
+      context.fill();
+    });
+    context.globalAlpha = 1;
+
+    this.outlines.forEach(({ keys, color, width, dash }) => {
+      if (keys.size === 0) return;
+      context.lineWidth = width;
+      context.strokeStyle = resolve(color);
+      context.setLineDash(dash ?? []);
+      onCanvas.forEach(bar => {
+        if (keys.has(bar.key)) context.strokeRect(bar.x, bar.y, bar.width, Math.max(0, bar.height));
+      });
+    });
+    context.setLineDash([]);
+  }
+
+  // Canvas can't read CSS variables, so theme tokens are looked up on the element itself
+  private resolveColor(color: string): string {
+    const match = /^var\((--[\w-]+)\)$/.exec(color.trim());
+    if (!match) return color;
+    return window.getComputedStyle(this.canvas).getPropertyValue(match[1]).trim() || color;
+  }
+}
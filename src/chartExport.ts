@@ -0,0 +1,257 @@
+export type ExportFormat = 'svg' | 'png';
+
+export interface ExportOptions {
+  /** Optional heading drawn above the chart */
+  title?: string;
+  /** Optional one-line legend (scale and level count) drawn under the title */
+  legend?: string;
+  /** Pixel density multiplier for PNG output */
+  pngScale?: number;
+  fileName?: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 16;
+const TITLE_HEIGHT = 32;
+const LEGEND_HEIGHT = 22;
+
+// Presentation properties copied from the live chart so the file renders without style.css
+const INLINED_PROPERTIES = [
+  'display', 'visibility', 'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'paint-order', 'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline'
+];
+
+// Interactive overlays that should not appear in an exported image
+const EXCLUDED_SELECTOR = '.click-area, .selection-line, .overview';
+
+function inlineComputedStyles(source: Element, target: Element): void {
+  const computed = window.getComputedStyle(source);
+  const style = INLINED_PROPERTIES
+    .map(property => `${property}:${computed.getPropertyValue(property)}`)
+    .join(';');
+  target.setAttribute('style', style);
+  for (let i = 0; i < source.children.length; i++) {
+    inlineComputedStyles(source.children[i], target.children[i]);
+  }
+}
+
+// Canvas-rendered bars don't survive cloning, so their pixels are embedded as images instead
+function rasterizeCanvasLayers(source: Element, target: Element): void {
+  const copies = target.querySelectorAll('foreignObject.canvas-layer');
+  source.querySelectorAll('foreignObject.canvas-layer').forEach((layer, i) => {
+    const canvas = layer.querySelector('canvas');
+    const image = document.createElementNS(SVG_NS, 'image');
+    ['x', 'y', 'width', 'height'].forEach(attribute => image.setAttribute(attribute, layer.getAttribute(attribute) ?? '0'));
+    if (canvas) image.setAttribute('href', canvas.toDataURL('image/png'));
+    copies[i].replaceWith(image);
+  });
+}
+
+function appendText(svg: SVGSVGElement, text: string, y: number, size: number, color: string, weight: string): void {
+  const node = document.createElementNS(SVG_NS, 'text');
+  node.setAttribute('x', String(PADDING));
+  node.setAttribute('y', String(y));
+  node.setAttribute('style', `fill:${color};font-size:${size}px;font-weight:${weight};font-family:${window.getComputedStyle(document.body).fontFamily}`);
+  node.textContent = text;
+  svg.appendChild(node);
+}
+
+/**
+ * Builds a self-contained copy of the chart: CSS variables resolved to concrete colours,
+ * interaction overlays removed, x-axis labels forced visible and the canvas cropped to the content.
+ */
+export function buildStandaloneSvg(chart: SVGSVGElement, options: ExportOptions = {}): SVGSVGElement {
+  const clone = chart.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  inlineComputedStyles(chart, clone);
+  rasterizeCanvasLayers(chart, clone);
+  clone.querySelectorAll(EXCLUDED_SELECTOR).forEach(el => el.remove());
+  clone.querySelectorAll<SVGTextElement>('.x-axis text').forEach(text => {
+    // Labels are hidden on narrow screens but should always be readable in an export
+    text.style.display = 'inline';
+  });
+
+  // Measure the content off-screen to crop the export to the bars and labels
+  const content = document.createElementNS(SVG_NS, 'g');
+  while (clone.firstChild) content.appendChild(clone.firstChild);
+  clone.appendChild(content);
+  clone.style.position = 'absolute';
+  clone.style.left = '-100000px';
+  document.body.appendChild(clone);
+  const bbox = content.getBBox();
+  document.body.removeChild(clone);
+  clone.removeAttribute('style');
+
+  const headerHeight = (options.title ? TITLE_HEIGHT : 0) + (options.legend ? LEGEND_HEIGHT : 0);
+  const width = Math.ceil(bbox.width + PADDING * 2);
+  const height = Math.ceil(bbox.height + PADDING * 2 + headerHeight);
+  content.setAttribute('transform', `translate(${PADDING - bbox.x},${PADDING + headerHeight - bbox.y})`);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const rootStyle = window.getComputedStyle(document.documentElement);
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', rootStyle.getPropertyValue('--canvas-bg').trim());
+  clone.insertBefore(background, content);
+
+  let y = PADDING;
+  if (options.title) {
+    y += TITLE_HEIGHT - 10;
+    appendText(clone, options.title, y, 22, rootStyle.getPropertyValue('--text').trim(), 'bold');
+  }
+  if (options.legend) {
+    y += LEGEND_HEIGHT;
+    appendText(clone, options.legend, y - (options.title ? 4 : 0), 13, rootStyle.getPropertyValue('--muted').trim(), 'normal');
+  }
+
+  return clone;
+}
+
+function serialize(svg: SVGSVGElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+}
+
+/** Saves a blob through a temporary download link. */
+export function download(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+async function rasterize(svg: SVGSVGElement, scale: number): Promise<Blob> {
+  const width = Number(svg.getAttribute('width'));
+  const height = Number(svg.getAttribute('height'));
+  const url = URL.createObjectURL(new Blob([serialize(svg)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Saves the chart as a standalone SVG file or a PNG rendered at `pngScale` times its size. */
+export async function exportChart(chart: SVGSVGElement, format: ExportFormat, options: ExportOptions = {}): Promise<void> {
+  const svg = buildStandaloneSvg(chart, options);
+  const fileName = options.fileName ?? 'gd-difficulty-chart';
+  if (format === 'svg') {
+    download(new Blob([serialize(svg)], { type: 'image/svg+xml' }), `${fileName}.svg`);
+  } else {
+    download(await rasterize(svg, options.pngScale ?? 2), `${fileName}.png`);
+  }
+}
+
+interface ExportMenuConfig {
+  /** Returns the live chart, settled (no running transitions) */
+  getChart: () => SVGSVGElement;
+  /** Default legend describing the current scale and reveal */
+  getLegend: () => string;
+}
+
+/**
+ * Dropdown with export settings (title, legend, PNG resolution) and SVG/PNG buttons.
+ * Built on <details> so it opens and closes without extra state.
+ */
+export class ExportMenu {
+  readonly element: HTMLDetailsElement;
+  private config: ExportMenuConfig;
+  private titleInput!: HTMLInputElement;
+  private legendCheckbox!: HTMLInputElement;
+  private scaleSelect!: HTMLSelectElement;
+
+  constructor(config: ExportMenuConfig) {
+    this.config = config;
+    this.element = document.createElement('details');
+    this.element.className = 'export-menu';
+    this.createElements();
+  }
+
+  private createElements(): void {
+    const summary = document.createElement('summary');
+    summary.className = 'nav-button export-toggle';
+    summary.textContent = 'Export';
+    this.element.appendChild(summary);
+
+    const panel = document.createElement('div');
+    panel.className = 'export-options';
+
+    const titleLabel = document.createElement('label');
+    titleLabel.textContent = 'Title';
+    this.titleInput = document.createElement('input');
+    this.titleInput.type = 'text';
+    this.titleInput.value = 'Geometry Dash difficulty scale';
+    titleLabel.appendChild(this.titleInput);
+
+    const legendLabel = document.createElement('label');
+    this.legendCheckbox = document.createElement('input');
+    this.legendCheckbox.type = 'checkbox';
+    this.legendCheckbox.checked = true;
+    legendLabel.appendChild(this.legendCheckbox);
+    legendLabel.appendChild(document.createTextNode(' Include legend'));
+
+    const scaleLabel = document.createElement('label');
+    scaleLabel.textContent = 'PNG resolution';
+    this.scaleSelect = document.createElement('select');
+    [1, 2, 3, 4].forEach(scale => {
+      const option = document.createElement('option');
+      option.value = String(scale);
+      option.textContent = `${scale}×`;
+      this.scaleSelect.appendChild(option);
+    });
+    this.scaleSelect.value = '2';
+    scaleLabel.appendChild(this.scaleSelect);
+
+    const buttons = document.createElement('div');
+    buttons.className = 'export-buttons';
+    (['svg', 'png'] as ExportFormat[]).forEach(format => {
+      const button = document.createElement('button');
+      button.className = 'nav-button';
+      button.textContent = format.toUpperCase();
+      button.addEventListener('click', () => this.export(format));
+      buttons.appendChild(button);
+    });
+
+    panel.appendChild(titleLabel);
+    panel.appendChild(legendLabel);
+    panel.appendChild(scaleLabel);
+    panel.appendChild(buttons);
+    this.element.appendChild(panel);
+  }
+
+  private async export(format: ExportFormat): Promise<void> {
+    try {
+      await exportChart(this.config.getChart(), format, {
+        title: this.titleInput.value.trim() || undefined,
+        legend: this.legendCheckbox.checked ? this.config.getLegend() : undefined,
+        pngScale: Number(this.scaleSelect.value)
+      });
+      this.element.open = false;
+    } catch (error) {
+      console.error('Failed to export chart:', error);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+import type { LevelData } from './dataParser';
+import { htmlToText } from './sanitize';
+
+const MAX_RESULTS = 20;
+
+interface SearchEntry {
+  index: number;
+  level: LevelData;
+  name: string;
+  publisher: string;
+  commentary: string;
+}
+
+export interface SearchResult {
+  index: number;
+  level: LevelData;
+  score: number;
+  /** Short excerpt of the commentary when that is what matched */
+  snippet: string | null;
+}
+
+interface CommandPaletteConfig {
+  data: LevelData[];
+  onSelect: (index: number) => void;
+}
+
+/**
+ * Scores how well `query` matches `text` as a subsequence (both lowercase).
+ * Consecutive characters and matches at word starts score higher; null means no match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  if (!query) return 0;
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+  for (const char of query) {
+    const found = text.indexOf(char, textIndex);
+    if (found === -1) return null;
+    score += 1;
+    if (found === previousMatch + 1) score += 5;
+    if (found === 0 || /[\s\-_(]/.test(text[found - 1])) score += 3;
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+  // Prefer shorter targets for the same matched characters
+  return score - text.length * 0.01;
+}
+
+function snippetAround(text: string, position: number, length: number): string {
+  const start = Math.max(0, position - 30);
+  const end = Math.min(text.length, position + length + 50);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Ranks levels by name (strongest), publisher, then commentary. Name and publisher are
+ * matched fuzzily; commentary only by substring to avoid noise from long text.
+ */
+function searchLevels(entries: SearchEntry[], rawQuery: string): SearchResult[] {
+  const query = rawQuery.trim().toLowerCase();
+  if (!query) {
+    return entries.slice(0, MAX_RESULTS).map(entry => ({ index: entry.index, level: entry.level, score: 0, snippet: null }));
+  }
+
+  const results: SearchResult[] = [];
+  for (const entry of entries) {
+    const nameScore = fuzzyScore(query, entry.name);
+    const publisherScore = fuzzyScore(query, entry.publisher);
+    const commentaryPosition = entry.commentary.toLowerCase().indexOf(query);
+
+    let score = -Infinity;
+    let snippet: string | null = null;
+    if (nameScore !== null) score = Math.max(score, nameScore * 3);
+    if (publisherScore !== null) score = Math.max(score, publisherScore * 2);
+    if (commentaryPosition >= 0 && score === -Infinity) {
+      score = query.length;
+      snippet = snippetAround(entry.commentary, commentaryPosition, query.length);
+    }
+    if (score !== -Infinity) {
+      results.push({ index: entry.index, level: entry.level, score, snippet });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, MAX_RESULTS);
+}
+
+/**
+ * Search-and-jump overlay, opened with `/` or Ctrl+K (Cmd+K on macOS).
+ * Choosing a result hands its index to `onSelect`, which reveals and selects the level.
+ */
+export class CommandPalette {
+  private entries: SearchEntry[] = [];
+  private onSelect: (index: number) => void;
+  private overlay!: HTMLDivElement;
+  private input!: HTMLInputElement;
+  private list!: HTMLUListElement;
+  private results: SearchResult[] = [];
+  private activeIndex: number = 0;
+  private previousFocus: Element | null = null;
+  private listeners = new AbortController();
+
+  constructor(config: CommandPaletteConfig) {
+    this.onSelect = config.onSelect;
+    this.setData(config.data);
+
+    this.createElements();
+
+    window.addEventListener('keydown', (ev: KeyboardEvent) => {
+      const target = ev.target as HTMLElement | null;
+      const typing = target && (target.isContentEditable || /^(INPUT|SELECT|TEXTAREA)$/.test(target.tagName));
+      if ((ev.key === 'k' || ev.key === 'K') && (ev.ctrlKey || ev.metaKey)) {
+        ev.preventDefault();
+        if (this.isOpen()) {
+          this.close();
+        } else {
+          this.open();
+        }
+      } else if (ev.key === '/' && !typing && !this.isOpen()) {
+        ev.preventDefault();
+        this.open();
+      }
+    }, { signal: this.listeners.signal });
+  }
+
+  /** Re-indexes the searchable levels, e.g. after the level list was reloaded. */
+  public setData(data: LevelData[]): void {
+    this.entries = data.map((level, index) => ({
+      index,
+      level,
+      name: level.name.toLowerCase(),
+      publisher: level.publisher.toLowerCase(),
+      commentary: htmlToText(level.commentary)
+    }));
+  }
+
+  public destroy(): void {
+    this.listeners.abort();
+    this.overlay.remove();
+  }
+
+  private createElements(): void {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'palette-overlay';
+    this.overlay.hidden = true;
+    this.overlay.addEventListener('mousedown', (ev: MouseEvent) => {
+      // Clicking the backdrop (not the dialog) closes the palette
+      if (ev.target === this.overlay) this.close();
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'palette';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-label', 'Jump to level');
+
+    this.input = document.createElement('input');
+    this.input.type = 'search';
+    this.input.className = 'palette-input';
+    this.input.placeholder = 'Search levels, publishers, commentary…';
+    this.input.setAttribute('role', 'combobox');
+    this.input.setAttribute('aria-expanded', 'true');
+    this.input.setAttribute('aria-controls', 'palette-results');
+    this.input.setAttribute('aria-autocomplete', 'list');
+    this.input.addEventListener('input', () => this.refresh());
+    this.input.addEventListener('keydown', (ev: KeyboardEvent) => this.handleInputKey(ev));
+
+    this.list = document.createElement('ul');
+    this.list.id = 'palette-results';
+    this.list.className = 'palette-results';
+    this.list.setAttribute('role', 'listbox');
+
+    dialog.appendChild(this.input);
+    dialog.appendChild(this.list);
+    this.overlay.appendChild(dialog);
+    document.body.appendChild(this.overlay);
+  }
+
+  public isOpen(): boolean {
+    return !this.overlay.hidden;
+  }
+
+  public open(): void {
+    this.previousFocus = document.activeElement;
+    this.overlay.hidden = false;
+    this.input.value = '';
+    this.refresh();
+    this.input.focus();
+  }
+
+  public close(): void {
+    this.overlay.hidden = true;
+    if (this.previousFocus instanceof HTMLElement || this.previousFocus instanceof SVGElement) {
+      this.previousFocus.focus();
+    }
+  }
+
+  private choose(result: SearchResult | undefined): void {
+    if (!result) return;
+    this.close();
+    this.onSelect(result.index);
+  }
+
+  private handleInputKey(ev: KeyboardEvent): void {
+    switch (ev.key) {
+      case 'ArrowDown':
+        this.setActive(this.activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        this.setActive(this.activeIndex - 1);
+        break;
+      case 'Enter':
+        this.choose(this.results[this.activeIndex]);
+        break;
+      case 'Escape':
+        this.close();
+        break;
+      default:
+        return;
+    }
+    ev.preventDefault();
+  }
+
+  private setActive(index: number): void {
+    if (this.results.length === 0) return;
+    this.activeIndex = (index + this.results.length) % this.results.length;
+    this.list.querySelectorAll('li').forEach((li, i) => {
+      li.setAttribute('aria-selected', i === this.activeIndex ? 'true' : 'false');
+      if (i === this.activeIndex) {
+        this.input.setAttribute('aria-activedescendant', li.id);
+        li.scrollIntoView({ block: 'nearest' });
+      }
+    });
+  }
+
+  private refresh(): void {
+    this.results = searchLevels(this.entries, this.input.value);
+    this.list.replaceChildren();
+
+    if (this.results.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'palette-empty';
+      empty.textContent = 'No matching levels';
+      this.list.appendChild(empty);
+      this.input.removeAttribute('aria-activedescendant');
+      return;
+    }
+
+    this.results.forEach((result, i) => {
+      const li = document.createElement('li');
+      li.id = `palette-result-${i}`;
+      li.className = 'palette-result';
+      li.setAttribute('role', 'option');
+
+      const name = document.createElement('span');
+      name.className = 'palette-result-name';
+      name.textContent = result.level.name;
+      li.appendChild(name);
+
+      const meta = document.createElement('span');
+      meta.className = 'palette-result-meta';
+      meta.textContent = [result.level.publisher, result.level.difficulty.toLocaleString()].filter(Boolean).join(' · ');
+      li.appendChild(meta);
+
+      if (result.snippet) {
+        const snippet = document.createElement('span');
+        snippet.className = 'palette-result-snippet';
+        snippet.textContent = result.snippet;
+        li.appendChild(snippet);
+      }
+
+      li.addEventListener('mousemove', () => {
+        if (this.activeIndex !== i) this.setActive(i);
+      });
+      li.addEventListener('click', () => this.choose(result));
+      this.list.appendChild(li);
+    });
+
+    this.activeIndex = 0;
+    this.setActive(0);
+  }
+}
@@ -0,0 +1,195 @@
+import type { LevelData } from './dataParser';
+import { htmlToText } from './sanitize';
+
+const EXCERPT_LENGTH = 220;
+
+interface CompareViewConfig {
+  /** The chart root the overlay is mounted in, so it takes the chart's theme */
+  container: HTMLElement;
+  onUnpin: (level: LevelData) => void;
+  onSelect: (level: LevelData) => void;
+}
+
+/** How much harder `level` is than `baseline`, as a ratio and an absolute gap. */
+export interface DifficultyComparison {
+  ratio: number | null;
+  gap: number;
+}
+
+export function compareDifficulty(level: LevelData, baseline: LevelData): DifficultyComparison {
+  return {
+    ratio: baseline.difficulty > 0 ? level.difficulty / baseline.difficulty : null,
+    gap: level.difficulty - baseline.difficulty
+  };
+}
+
+export function formatRatio(ratio: number): string {
+  return ratio >= 10
+    ? `${Math.round(ratio).toLocaleString()}×`
+    : `${ratio.toLocaleString(undefined, { maximumFractionDigits: 2 })}×`;
+}
+
+// Plain-text start of the (sanitized) commentary
+function excerpt(html: string): string {
+  const text = htmlToText(html);
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+}
+
+/**
+ * Side-by-side comparison of pinned levels, ordered from easiest to hardest. Each card
+ * states how many times harder (and by how much) it is than the card before it.
+ */
+export class CompareView {
+  private config: CompareViewConfig;
+  private overlay!: HTMLDivElement;
+  private cards!: HTMLDivElement;
+  private previousFocus: Element | null = null;
+
+  constructor(config: CompareViewConfig) {
+    this.config = config;
+    this.createElements();
+  }
+
+  private createElements(): void {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'compare-overlay';
+    this.overlay.hidden = true;
+    this.overlay.addEventListener('mousedown', (ev: MouseEvent) => {
+      if (ev.target === this.overlay) this.close();
+    });
+    this.overlay.addEventListener('keydown', (ev: KeyboardEvent) => {
+      if (ev.key === 'Escape') {
+        ev.stopPropagation();
+        this.close();
+      }
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'compare-dialog';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-label', 'Compare pinned levels');
+    dialog.tabIndex = -1;
+
+    const header = document.createElement('div');
+    header.className = 'compare-header';
+    const heading = document.createElement('h2');
+    heading.textContent = 'Compare levels';
+    const closeButton = document.createElement('button');
+    closeButton.className = 'compare-close';
+    closeButton.textContent = '×';
+    closeButton.setAttribute('aria-label', 'Close comparison');
+    closeButton.addEventListener('click', () => this.close());
+    header.appendChild(heading);
+    header.appendChild(closeButton);
+
+    this.cards = document.createElement('div');
+    this.cards.className = 'compare-cards';
+
+    dialog.appendChild(header);
+    dialog.appendChild(this.cards);
+    this.overlay.appendChild(dialog);
+    this.config.container.appendChild(this.overlay);
+  }
+
+  public isOpen(): boolean {
+    return !this.overlay.hidden;
+  }
+
+  public open(levels: LevelData[]): void {
+    this.previousFocus = document.activeElement;
+    this.render(levels);
+    this.overlay.hidden = false;
+    this.overlay.querySelector<HTMLElement>('.compare-dialog')?.focus();
+  }
+
+  public close(): void {
+    this.overlay.hidden = true;
+    if (this.previousFocus instanceof HTMLElement || this.previousFocus instanceof SVGElement) {
+      this.previousFocus.focus();
+    }
+  }
+
+  public destroy(): void {
+    this.overlay.remove();
+  }
+
+  /** Re-renders the open view, e.g. after a level was unpinned. */
+  public render(levels: LevelData[]): void {
+    const sorted = [...levels].sort((a, b) => a.difficulty - b.difficulty);
+    this.cards.replaceChildren();
+
+    if (sorted.length < 2) {
+      const hint = document.createElement('p');
+      hint.className = 'compare-hint';
+      hint.textContent = 'Pin at least two levels to compare them (Pin button in the details panel, Shift+click a bar, or press P).';
+      this.cards.appendChild(hint);
+    }
+
+    sorted.forEach((level, i) => {
+      const card = document.createElement('article');
+      card.className = 'compare-card';
+
+      const name = document.createElement('h3');
+      const nameButton = document.createElement('button');
+      nameButton.className = 'compare-name';
+      nameButton.textContent = level.name;
+      nameButton.addEventListener('click', () => {
+        this.close();
+        this.config.onSelect(level);
+      });
+      name.appendChild(nameButton);
+      card.appendChild(name);
+
+      if (level.publisher) {
+        const publisher = document.createElement('p');
+        publisher.className = 'compare-publisher';
+        publisher.textContent = `by ${level.publisher}`;
+        card.appendChild(publisher);
+      }
+
+      const difficulty = document.createElement('p');
+      difficulty.className = 'compare-difficulty';
+      difficulty.textContent = `Difficulty ${level.difficulty.toLocaleString()}`;
+      card.appendChild(difficulty);
+
+      const relation = document.createElement('p');
+      relation.className = 'compare-relation';
+      if (i === 0) {
+        relation.textContent = 'Easiest pinned level';
+      } else {
+        const previous = sorted[i - 1];
+        const { ratio, gap } = compareDifficulty(level, previous);
+        const ratioText = ratio !== null ? `${formatRatio(ratio)} as hard as` : 'Harder than';
+        relation.textContent = `${ratioText} ${previous.name} (+${gap.toLocaleString()})`;
+      }
+      card.appendChild(relation);
+
+      if (i > 1) {
+        const { ratio } = compareDifficulty(level, sorted[0]);
+        if (ratio !== null) {
+          const total = document.createElement('p');
+          total.className = 'compare-relation';
+          total.textContent = `${formatRatio(ratio)} as hard as ${sorted[0].name}`;
+          card.appendChild(total);
+        }
+      }
+
+      const commentary = excerpt(level.commentary);
+      if (commentary) {
+        const text = document.createElement('p');
+        text.className = 'compare-excerpt';
+        text.textContent = commentary;
+        card.appendChild(text);
+      }
+
+      const unpin = document.createElement('button');
+      unpin.className = 'compare-unpin';
+      unpin.textContent = 'Unpin';
+      unpin.addEventListener('click', () => this.config.onUnpin(level));
+      card.appendChild(unpin);
+
+      this.cards.appendChild(card);
+    });
+  }
+}
@@ -1,5 +1,10 @@
+import { sanitizeHtml } from './sanitize';
+
 export const BLOG_POST_URL = 'https://danielzting.github.io/blog/the-inhuman-skill-ceiling-of-geometry-dash/';
 
+// Copy of the blog post saved at build time (see vite.config.ts), used when the blog is unreachable
+export const SNAPSHOT_FILE_NAME = 'snapshot.html';
+
 export interface LevelData {
   name: string;
   publisher: string;
@@ -7,19 +12,49 @@ export interface LevelData {
   youtubeUrl: string | null;
   gdBrowserUrl: string | null;
   commentary: string;
+  /** Optional tier name (e.g. "Extreme Demon"); derived from difficulty when absent */
+  tier?: string;
+}
+
+export type ParseDiagnosticKind =
+  | 'skipped-heading'
+  | 'missing-publisher'
+  | 'ambiguous-name-split'
+  | 'missing-youtube-link'
+  | 'missing-gdbrowser-link'
+  | 'unresolved-footnote';
+
+/** Something the blog scraper had to guess at or skip, reported so broken edits are noticed. */
+export interface ParseDiagnostic {
+  kind: ParseDiagnosticKind;
+  /** Text of the `<h3>` heading the diagnostic belongs to */
+  heading: string;
+  message: string;
 }
 
-export async function fetchAndParseLevelData(): Promise<LevelData[]> {
-  const response = await fetch(BLOG_POST_URL);
+export interface ParseResult {
+  levels: LevelData[];
+  diagnostics: ParseDiagnostic[];
+}
+
+const NAME_PUBLISHER_SEPARATOR = /\s+by\s+|\s+-\s+/gi;
+
+export async function fetchAndParseLevelData(url: string = BLOG_POST_URL): Promise<ParseResult> {
+  const response = await fetch(url);
   if (!response.ok) {
     throw new Error(`Failed to fetch blog post: ${response.statusText}`);
   }
 
   const html = await response.text();
+  return parseLevelDataFromHtml(html);
+}
+
+export function parseLevelDataFromHtml(html: string): ParseResult {
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
 
   const levels: LevelData[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
   const h3Elements = doc.querySelectorAll('h3');
 
   for (let i = 0; i < h3Elements.length; i++) {
@@ -30,6 +65,9 @@ export async function fetchAndParseLevelData(): Promise<LevelData[]> {
     const namePublisherMatch = levelNameAndPublisher.match(/^(.+?)(?:\s+by\s+|\s+-\s+)(.+)$/i);
     const name = namePublisherMatch ? namePublisherMatch[1].trim() : levelNameAndPublisher;
     const publisher = namePublisherMatch ? namePublisherMatch[2].trim() : '';
+    const report = (kind: ParseDiagnosticKind, message: string) => {
+      diagnostics.push({ kind, heading: levelNameAndPublisher, message });
+    };
 
     // Find the next h3 to know where to stop (for finding next level)
     const nextH3 = i < h3Elements.length - 1 ? h3Elements[i + 1] : null;
@@ -64,9 +102,16 @@ export async function fetchAndParseLevelData(): Promise<LevelData[]> {
     }
 
     if (difficulty === null) {
+      report('skipped-heading', 'No "Difficulty value:" line before the next heading');
       continue; // Skip if no difficulty found
     }
 
+    if (!namePublisherMatch) {
+      report('missing-publisher', 'Heading has no "by" or "-" separator; using the whole heading as the name');
+    } else if ((levelNameAndPublisher.match(NAME_PUBLISHER_SEPARATOR) || []).length > 1) {
+      report('ambiguous-name-split', `Heading has several separators; split as name "${name}", publisher "${publisher}"`);
+    }
+
     // Find YouTube and GDBrowser links. Also collect hrefs from the difficulty element
     // so we only remove those specific anchors from commentary (preserve other anchors).
     let youtubeUrl: string | null = null;
@@ -100,6 +145,13 @@ export async function fetchAndParseLevelData(): Promise<LevelData[]> {
       }
     }
 
+    if (!youtubeUrl) {
+      report('missing-youtube-link', 'No YouTube link found');
+    }
+    if (!gdBrowserUrl) {
+      report('missing-gdbrowser-link', 'No GDBrowser link found');
+    }
+
     // Collect commentary: everything after the links (or after difficulty if no links)
     // Find the index where links end (or where difficulty ends)
     let commentaryStartIndex = 0;
@@ -188,6 +240,10 @@ export async function fetchAndParseLevelData(): Promise<LevelData[]> {
         const href = a.getAttribute('href') || '';
         if (!href.startsWith('#')) return;
         const refId = href.slice(1);
+        // Footnote-style references (#fn1, #user-content-fn-2) that point at no known footnote
+        if (refId && !footnoteMap[refId] && /^(user-content-)?fn(?!ref)/.test(refId)) {
+          report('unresolved-footnote', `Footnote reference "${href}" has no matching footnote`);
+        }
         // If this is a footnote reference we know about, replace the anchor with its text (remove link)
         if (refId && footnoteMap[refId]) {
           const text = a.textContent || '';
@@ -223,7 +279,7 @@ export async function fetchAndParseLevelData(): Promise<LevelData[]> {
     }
 
     // Convert commentary elements to HTML string
-    const commentaryHTML = commentaryElements.map(el => el.outerHTML).join('');
+    const commentaryHTML = sanitizeHtml(commentaryElements.map(el => el.outerHTML).join(''));
 
     levels.push({
       name,
@@ -235,5 +291,12 @@ export async function fetchAndParseLevelData(): Promise<LevelData[]> {
     });
   }
 
-  return levels;
+  return { levels, diagnostics };
+}
+
+/** Logs scraper diagnostics as a console table, grouped under one warning. */
+export function reportParseDiagnostics(source: string, diagnostics: ParseDiagnostic[]): void {
+  if (diagnostics.length === 0) return;
+  console.warn(`${source}: ${diagnostics.length} parse diagnostic(s)`);
+  console.table(diagnostics);
 }
@@ -0,0 +1,207 @@
+import * as d3 from 'd3';
+import { parseAnnotations } from './annotations';
+import type { Annotation } from './annotations';
+import { BLOG_POST_URL, SNAPSHOT_FILE_NAME, parseLevelDataFromHtml } from './dataParser';
+import type { LevelData, ParseDiagnostic } from './dataParser';
+import { sanitizeHtml } from './sanitize';
+import { LEVEL_LIST_SCHEMA_VERSION, validateLevelData } from './validation';
+import type { ValidationResult } from './validation';
+
+/**
+ * Validated levels plus any scraper diagnostics (always empty for JSON and CSV) and the
+ * annotations shipped with the list (only JSON documents can carry them).
+ */
+export interface LevelLoadResult extends ValidationResult {
+  diagnostics: ParseDiagnostic[];
+  annotations: Annotation[];
+}
+
+/**
+ * Anything that can produce a list of levels for the visualization.
+ * `description` is a short human-readable label used in logs and error messages.
+ * `load()` returns the validated levels along with any issues found in the raw data.
+ */
+export interface LevelDataSource {
+  readonly description: string;
+  load(): Promise<LevelLoadResult>;
+}
+
+export type LevelDataFormat = 'html' | 'json' | 'csv';
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+  }
+  return response.text();
+}
+
+function optionalString(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const str = String(value).trim();
+  return str ? str : null;
+}
+
+// Coerce a loosely-typed record (JSON object or CSV row) into a LevelData entry. Anything that
+// isn't an object (null, a number) reads as an empty entry, which validation reports and drops.
+function toLevelData(entry: unknown): LevelData {
+  const raw: Record<string, unknown> = typeof entry === 'object' && entry !== null ? { ...entry } : {};
+  const tier = optionalString(raw.tier);
+  return {
+    name: String(raw.name ?? '').trim(),
+    publisher: String(raw.publisher ?? '').trim(),
+    difficulty: typeof raw.difficulty === 'number'
+      ? raw.difficulty
+      : parseFloat(String(raw.difficulty ?? '').replace(/,/g, '')),
+    youtubeUrl: optionalString(raw.youtubeUrl),
+    gdBrowserUrl: optionalString(raw.gdBrowserUrl),
+    commentary: sanitizeHtml(String(raw.commentary ?? '')),
+    ...(tier ? { tier } : {})
+  };
+}
+
+/** Parses a JSON level list along with its `annotations`, if it is a versioned document. */
+export function parseLevelListFromJson(text: string): { levels: LevelData[]; annotations: Annotation[] } {
+  const parsed = JSON.parse(text);
+  // Accept either a bare array (unversioned) or a versioned `{ version, levels }` document
+  if (!Array.isArray(parsed) && typeof parsed === 'object' && parsed !== null) {
+    if (typeof parsed.version !== 'number') {
+      throw new Error('JSON level list document must have a numeric "version"');
+    }
+    if (parsed.version > LEVEL_LIST_SCHEMA_VERSION) {
+      throw new Error(`Level list schema version ${parsed.version} is newer than supported version ${LEVEL_LIST_SCHEMA_VERSION}`);
+    }
+  }
+  const entries = Array.isArray(parsed) ? parsed : parsed?.levels;
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON level list must be an array or an object with a "levels" array');
+  }
+  return {
+    levels: entries.map(toLevelData),
+    annotations: Array.isArray(parsed) ? [] : parseAnnotations(parsed.annotations)
+  };
+}
+
+export function parseLevelDataFromCsv(text: string): LevelData[] {
+  // Expected header: name,publisher,difficulty,youtubeUrl,gdBrowserUrl,commentary[,tier]
+  return d3.csvParse(text).map(row => toLevelData(row));
+}
+
+/** Scrapes the `<h3>` level headings out of a blog post (the original data source). */
+export class BlogPostSource implements LevelDataSource {
+  readonly description: string;
+  private url: string;
+
+  constructor(url: string = BLOG_POST_URL) {
+    this.url = url;
+    this.description = `blog post ${url}`;
+  }
+
+  async load(): Promise<LevelLoadResult> {
+    const { levels, diagnostics } = parseLevelDataFromHtml(await fetchText(this.url));
+    return { ...validateLevelData(levels), diagnostics, annotations: [] };
+  }
+}
+
+/** Loads a JSON level list, e.g. a file shipped next to the app or a test fixture. */
+export class JsonFileSource implements LevelDataSource {
+  readonly description: string;
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    this.description = `JSON file ${url}`;
+  }
+
+  async load(): Promise<LevelLoadResult> {
+    const { levels, annotations } = parseLevelListFromJson(await fetchText(this.url));
+    return { ...validateLevelData(levels), diagnostics: [], annotations };
+  }
+}
+
+/** Loads a CSV level list with one row per level and a header row naming the LevelData fields. */
+export class CsvFileSource implements LevelDataSource {
+  readonly description: string;
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    this.description = `CSV file ${url}`;
+  }
+
+  async load(): Promise<LevelLoadResult> {
+    return { ...validateLevelData(parseLevelDataFromCsv(await fetchText(this.url))), diagnostics: [], annotations: [] };
+  }
+}
+
+function inferFormat(url: string): LevelDataFormat {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith('.json')) return 'json';
+  if (path.endsWith('.csv')) return 'csv';
+  return 'html';
+}
+
+/** Loads from any URL in the given format or, failing that, the one its file extension suggests. */
+export class UrlSource implements LevelDataSource {
+  readonly description: string;
+  private delegate: LevelDataSource;
+
+  constructor(url: string, format?: LevelDataFormat, label: string = 'URL source') {
+    const resolvedFormat = format ?? inferFormat(url);
+    switch (resolvedFormat) {
+      case 'json':
+        this.delegate = new JsonFileSource(url);
+        break;
+      case 'csv':
+        this.delegate = new CsvFileSource(url);
+        break;
+      default:
+        this.delegate = new BlogPostSource(url);
+    }
+    this.description = `${label} (${this.delegate.description})`;
+  }
+
+  load(): Promise<LevelLoadResult> {
+    return this.delegate.load();
+  }
+}
+
+/**
+ * Loads from a URL given in the page query string, e.g. `?source=lists/mine.csv`.
+ * The format comes from `?format=html|json|csv` or, failing that, the file extension.
+ */
+export class QueryStringSource extends UrlSource {
+  constructor(url: string, format?: LevelDataFormat) {
+    super(url, format, 'query string source');
+  }
+}
+
+export function isLevelDataFormat(value: string | null): value is LevelDataFormat {
+  return value === 'html' || value === 'json' || value === 'csv';
+}
+
+/** Picks the data source for this page load; defaults to the original blog post. */
+export function selectDataSource(search: string = window.location.search): LevelDataSource {
+  const params = new URLSearchParams(search);
+  const source = params.get('source');
+  if (!source) {
+    return new BlogPostSource();
+  }
+  const format = params.get('format');
+  if (format !== null && !isLevelDataFormat(format)) {
+    throw new Error(`Unsupported data format "${format}" (expected html, json or csv)`);
+  }
+  return new QueryStringSource(source, format ?? undefined);
+}
+
+/**
+ * The build-time snapshot of the blog post, or null when the page was pointed at another
+ * source (the snapshot would show the wrong list).
+ */
+export function selectSnapshotSource(search: string = window.location.search): LevelDataSource | null {
+  if (new URLSearchParams(search).get('source')) {
+    return null;
+  }
+  const source = new BlogPostSource(`${import.meta.env.BASE_URL}${SNAPSHOT_FILE_NAME}`);
+  return { description: 'bundled snapshot', load: () => source.load() };
+}
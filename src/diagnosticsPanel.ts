@@ -0,0 +1,58 @@
+import type { ParseDiagnostic } from './dataParser';
+import type { ValidationIssue } from './validation';
+
+interface DiagnosticRow {
+  source: string;
+  heading: string;
+  kind: string;
+  message: string;
+}
+
+function appendCell(row: HTMLTableRowElement, text: string, tag: 'td' | 'th' = 'td'): void {
+  const cell = document.createElement(tag);
+  cell.textContent = text;
+  row.appendChild(cell);
+}
+
+/**
+ * Developer-facing table of scraper diagnostics and validation issues, shown when the
+ * page is opened with `?diagnostics`. Replaces any previous panel (e.g. after revalidation).
+ */
+export function showDiagnosticsPanel(diagnostics: ParseDiagnostic[], issues: ValidationIssue[]): void {
+  document.querySelector('.diagnostics-panel')?.remove();
+
+  const rows: DiagnosticRow[] = [
+    ...diagnostics.map(d => ({ source: 'parser', heading: d.heading, kind: d.kind, message: d.message })),
+    ...issues.map(issue => ({
+      source: `validation (${issue.severity})`,
+      heading: issue.name || `entry ${issue.index}`,
+      kind: issue.field,
+      message: issue.message
+    }))
+  ];
+
+  const panel = document.createElement('details');
+  panel.className = 'diagnostics-panel';
+  panel.open = rows.length > 0;
+
+  const summary = document.createElement('summary');
+  summary.textContent = `Data diagnostics (${rows.length})`;
+  panel.appendChild(summary);
+
+  if (rows.length > 0) {
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    ['Source', 'Heading / level', 'Kind', 'Message'].forEach(label => appendCell(header, label, 'th'));
+    const body = table.createTBody();
+    rows.forEach(row => {
+      const tr = body.insertRow();
+      appendCell(tr, row.source);
+      appendCell(tr, row.heading);
+      appendCell(tr, row.kind);
+      appendCell(tr, row.message);
+    });
+    panel.appendChild(table);
+  }
+
+  document.body.appendChild(panel);
+}
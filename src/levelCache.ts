@@ -0,0 +1,49 @@
+import type { Annotation } from './annotations';
+import type { LevelData } from './dataParser';
+import { safeStorage } from './safeStorage';
+
+// Bump the version when the stored shape or its processing (e.g. sanitizing) changes
+const CACHE_KEY_PREFIX = 'gd-viz:levels:v2:';
+
+export interface CachedLevelList {
+  /** Milliseconds since epoch when the list was last fetched */
+  savedAt: number;
+  /** Content hash of `levels` and `annotations`, used to detect when the remote list changed */
+  hash: string;
+  levels: LevelData[];
+  /** Annotations shipped with the list; missing in entries cached before they existed */
+  annotations?: Annotation[];
+}
+
+/**
+ * Short non-cryptographic hash (FNV-1a, 32-bit) of the serialized level list. Lists without
+ * annotations hash as before they were supported, so existing cache entries stay current.
+ */
+export function hashLevelData(levels: LevelData[], annotations: Annotation[] = []): string {
+  const text = JSON.stringify(annotations.length > 0 ? { levels, annotations } : levels);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function readCachedLevels(sourceKey: string): CachedLevelList | null {
+  const raw = safeStorage.get(CACHE_KEY_PREFIX + sourceKey);
+  if (!raw) return null;
+  try {
+    const cached = JSON.parse(raw) as CachedLevelList;
+    if (!Array.isArray(cached.levels) || typeof cached.hash !== 'string') return null;
+    return cached;
+  } catch {
+    return null;
+  }
+}
+
+/** Stores the list and returns the cache entry written. Quota errors are ignored. */
+export function writeCachedLevels(sourceKey: string, levels: LevelData[], annotations: Annotation[] = []): CachedLevelList {
+  const entry: CachedLevelList = { savedAt: Date.now(), hash: hashLevelData(levels, annotations), levels, annotations };
+  safeStorage.set(CACHE_KEY_PREFIX + sourceKey, JSON.stringify(entry), 'level data to the cache');
+  return entry;
+}
@@ -0,0 +1,101 @@
+import * as d3 from 'd3';
+import type { LevelData } from './dataParser';
+
+/** The order Forward reveals levels in. */
+export type RevealOrder = 'blog' | 'ascending' | 'descending' | 'random';
+
+/** How revealed bars are arranged along the x-axis; 'reveal' keeps them in the order they appeared. */
+export type SortKey = 'reveal' | 'difficulty' | 'name' | 'publisher';
+
+/** Which levels take part at all. Null fields don't filter. */
+export interface LevelFilter {
+  publisher: string | null;
+  minDifficulty: number | null;
+  maxDifficulty: number | null;
+}
+
+export interface LevelOrdering {
+  revealOrder: RevealOrder;
+  /** Seed for the 'random' reveal order, so the same shuffle comes back from a shared link */
+  seed: number;
+  sortBy: SortKey;
+  filter: LevelFilter;
+}
+
+export const REVEAL_ORDERS: { value: RevealOrder; label: string }[] = [
+  { value: 'blog', label: 'Blog order' },
+  { value: 'ascending', label: 'Easiest first' },
+  { value: 'descending', label: 'Hardest first' },
+  { value: 'random', label: 'Random' }
+];
+
+export const SORT_KEYS: { value: SortKey; label: string }[] = [
+  { value: 'reveal', label: 'Reveal order' },
+  { value: 'difficulty', label: 'Difficulty' },
+  { value: 'name', label: 'Name' },
+  { value: 'publisher', label: 'Publisher' }
+];
+
+export const NO_FILTER: LevelFilter = { publisher: null, minDifficulty: null, maxDifficulty: null };
+
+export const DEFAULT_ORDERING: LevelOrdering = { revealOrder: 'blog', seed: 0, sortBy: 'reveal', filter: NO_FILTER };
+
+export function isRevealOrder(value: unknown): value is RevealOrder {
+  return REVEAL_ORDERS.some(option => option.value === value);
+}
+
+export function isSortKey(value: unknown): value is SortKey {
+  return SORT_KEYS.some(option => option.value === value);
+}
+
+export function isFiltered(filter: LevelFilter): boolean {
+  return filter.publisher !== null || filter.minDifficulty !== null || filter.maxDifficulty !== null;
+}
+
+export function matchesFilter(level: LevelData, filter: LevelFilter): boolean {
+  return (filter.publisher === null || level.publisher === filter.publisher)
+    && (filter.minDifficulty === null || level.difficulty >= filter.minDifficulty)
+    && (filter.maxDifficulty === null || level.difficulty <= filter.maxDifficulty);
+}
+
+/** A fresh seed for the 'random' reveal order. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+/**
+ * Indices (into `levels`) of the levels that pass the filter, in the order they are revealed.
+ * Revealing N levels shows the first N of this sequence. Equal difficulties keep blog order.
+ */
+export function revealSequence(levels: LevelData[], ordering: LevelOrdering): number[] {
+  const indices = levels.map((_, i) => i).filter(i => matchesFilter(levels[i], ordering.filter));
+  switch (ordering.revealOrder) {
+    case 'ascending':
+      return indices.sort((a, b) => levels[a].difficulty - levels[b].difficulty || a - b);
+    case 'descending':
+      return indices.sort((a, b) => levels[b].difficulty - levels[a].difficulty || a - b);
+    case 'random':
+      return d3.shuffler(d3.randomLcg(ordering.seed))(indices);
+    default:
+      return indices;
+  }
+}
+
+/** Revealed levels in x-axis order. Sorting is stable, so ties stay in reveal order. */
+export function sortLevels(levels: LevelData[], sortBy: SortKey): LevelData[] {
+  switch (sortBy) {
+    case 'difficulty':
+      return levels.slice().sort((a, b) => a.difficulty - b.difficulty);
+    case 'name':
+      return levels.slice().sort((a, b) => a.name.localeCompare(b.name));
+    case 'publisher':
+      return levels.slice().sort((a, b) => a.publisher.localeCompare(b.publisher) || a.difficulty - b.difficulty);
+    default:
+      return levels;
+  }
+}
+
+/** Every publisher in the list, alphabetically, for the publisher filter. */
+export function publishersOf(levels: LevelData[]): string[] {
+  return Array.from(new Set(levels.map(level => level.publisher).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+}
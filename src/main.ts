@@ -1,36 +1,207 @@
-import { fetchAndParseLevelData } from './dataParser';
+import type { Annotation } from './annotations';
+import { ExportMenu } from './chartExport';
+import { CommandPalette } from './commandPalette';
+import { reportParseDiagnostics } from './dataParser';
+import type { LevelData } from './dataParser';
+import { selectDataSource, selectSnapshotSource } from './dataSources';
+import type { LevelDataSource } from './dataSources';
+import { showDiagnosticsPanel } from './diagnosticsPanel';
+import { DEFAULT_ORDERING } from './levelOrder';
+import { hashLevelData, readCachedLevels, writeCachedLevels } from './levelCache';
+import { showNotice } from './notice';
+import { GuidedTour, parseTourPacing } from './tour';
+import { escapeHtml } from './sanitize';
+import { SCALE_MODES } from './scales';
+import { ThemeSwitcher, applyTheme, readThemePreference } from './theme';
+import { readViewState, writeViewState } from './urlState';
+import { reportValidationIssues } from './validation';
 import { GDVisualization } from './visualization';
+import type { ChartRenderer } from './visualization';
 import './style.css';
+import './page.css';
+
+// Lists longer than this draw their bars on canvas; `?renderer=svg` or `?renderer=canvas` overrides it
+const CANVAS_RENDERER_THRESHOLD = 1000;
+
+function chooseRenderer(levelCount: number): ChartRenderer {
+  const requested = new URLSearchParams(window.location.search).get('renderer');
+  if (requested === 'svg' || requested === 'canvas') return requested;
+  return levelCount > CANVAS_RENDERER_THRESHOLD ? 'canvas' : 'svg';
+}
+
+/** The levels of one list and the annotations that came with it. */
+interface LevelList {
+  levels: LevelData[];
+  annotations: Annotation[];
+}
+
+async function loadLevels(source: LevelDataSource): Promise<LevelList> {
+  const { levels, annotations, issues, diagnostics } = await source.load();
+  reportParseDiagnostics(source.description, diagnostics);
+  reportValidationIssues(source.description, issues);
+  if (new URLSearchParams(window.location.search).has('diagnostics')) {
+    showDiagnosticsPanel(diagnostics, issues);
+  }
+  return { levels, annotations };
+}
+
+/** Everything rendered for one level list, so it can be refreshed in place or torn down. */
+interface AppView {
+  setData(list: LevelList): void;
+  destroy(): void;
+}
+
+function render(app: HTMLDivElement, initialList: LevelList, sourceKey: string): AppView {
+  let levelData = initialList.levels;
+  let tour: GuidedTour | null = null;
+  const visualization = new GDVisualization({
+    container: app,
+    data: levelData,
+    renderer: chooseRenderer(levelData.length),
+    annotations: initialList.annotations,
+    // The viewer's own annotations and progress are kept per level list
+    storageKey: sourceKey,
+    // Restore the view from a shared link and keep the URL in sync as the user navigates
+    initialState: readViewState(levelData),
+    onViewStateChange: (state, reason) => {
+      // Only the user's own steps get history entries; a background data refresh replaces the current one
+      writeViewState(levelData, state, reason === 'reveal' ? 'push' : 'replace');
+      if (reason === 'order') {
+        tour?.setTotalLevels(visualization.getRevealSequence().length);
+      } else {
+        tour?.updateProgress(state);
+      }
+    }
+  });
+
+  // `?tour=5` (seconds per step) or `?tour=video` starts the autoplay tour right away
+  const tourPacing = parseTourPacing(new URLSearchParams(window.location.search).get('tour'));
+  tour = new GuidedTour({
+    visualization,
+    totalLevels: visualization.getRevealSequence().length,
+    pacing: tourPacing ?? undefined
+  });
+  if (tourPacing !== null) {
+    tour.play();
+  }
+
+  const exportMenu = new ExportMenu({
+    getChart: () => visualization.getSettledSvg(),
+    getLegend: () => {
+      const { visibleLevels, scaleMode } = visualization.getViewState();
+      const scaleLabel = SCALE_MODES.find(option => option.mode === scaleMode)?.label ?? scaleMode;
+      return `Bar height: difficulty (${scaleLabel.toLowerCase()} scale) · ${visibleLevels} of ${visualization.getRevealSequence().length} levels`;
+    }
+  });
+  visualization.addNavControl(exportMenu.element);
+  const themeSwitcher = new ThemeSwitcher();
+  visualization.addNavControl(themeSwitcher.element);
+
+  const palette = new CommandPalette({
+    data: levelData,
+    onSelect: index => visualization.goToLevel(index)
+  });
+
+  const onPopState = () => {
+    visualization.setViewState({ visibleLevels: 1, scaleMode: 'linear', ordering: DEFAULT_ORDERING, ...readViewState(levelData) });
+    tour?.setTotalLevels(visualization.getRevealSequence().length);
+  };
+  window.addEventListener('popstate', onPopState);
+
+  return {
+    setData({ levels, annotations }: LevelList) {
+      levelData = levels;
+      visualization.setData(levels, annotations);
+      palette.setData(levels);
+      tour?.setTotalLevels(visualization.getRevealSequence().length);
+    },
+    destroy() {
+      window.removeEventListener('popstate', onPopState);
+      tour?.destroy();
+      palette.destroy();
+      themeSwitcher.destroy();
+      visualization.destroy();
+    }
+  };
+}
+
+// The rendered app, kept so a hot-module reload can tear it down before rendering again
+let currentView: AppView | null = null;
+
+// Fetch the latest list behind an already-rendered cached copy and offer to swap it in if it changed
+async function revalidate(source: LevelDataSource, cachedHash: string, view: AppView): Promise<void> {
+  try {
+    const list = await loadLevels(source);
+    if (list.levels.length === 0) return;
+    // The cache keeps the list the user is looking at until they choose to see the changes
+    if (hashLevelData(list.levels, list.annotations) !== cachedHash) {
+      const notice = showNotice('Level data has been updated.', {
+        label: 'Show changes',
+        onClick: () => {
+          notice.remove();
+          writeCachedLevels(source.description, list.levels, list.annotations);
+          view.setData(list);
+        }
+      });
+    }
+  } catch (error) {
+    console.warn('Could not refresh level data, showing cached copy:', error);
+  }
+}
 
 async function init() {
+  // Theme the loading and error states too, not just the rendered chart
+  applyTheme(readThemePreference());
+
   try {
     const app = document.querySelector<HTMLDivElement>('#app');
     if (!app) {
       throw new Error('App container not found');
     }
-    
-    // Fetch and parse level data
-    const levelData = await fetchAndParseLevelData();
-    
-    if (levelData.length === 0) {
-      app.innerHTML = '<p>No level data found. Please check the blog post URL.</p>';
+
+    // Fetch and parse level data from the configured source (blog post by default)
+    const source = selectDataSource();
+
+    // Stale-while-revalidate: render the cached list instantly, refresh it in the background
+    const cached = readCachedLevels(source.description);
+    if (cached && cached.levels.length > 0) {
+      currentView = render(app, { levels: cached.levels, annotations: cached.annotations ?? [] }, source.description);
+      void revalidate(source, cached.hash, currentView);
       return;
     }
-    
+
+    let list: LevelList;
+    try {
+      list = await loadLevels(source);
+      if (list.levels.length > 0) {
+        writeCachedLevels(source.description, list.levels, list.annotations);
+      }
+    } catch (error) {
+      // Neither network nor cache worked: fall back to the snapshot bundled at build time
+      const snapshot = selectSnapshotSource();
+      if (!snapshot) throw error;
+      console.warn('Failed to load level data, falling back to bundled snapshot:', error);
+      list = await loadLevels(snapshot).catch(() => { throw error; });
+      if (list.levels.length === 0) throw error;
+      showNotice('Could not reach the blog; showing an offline snapshot.');
+    }
+
+    if (list.levels.length === 0) {
+      app.innerHTML = '<p>No level data found. Please check the data source.</p>';
+      return;
+    }
+
     // Initialize visualization
-    new GDVisualization({
-      container: app,
-      data: levelData
-    });
-    
+    currentView = render(app, list, source.description);
+
   } catch (error) {
     const app = document.querySelector<HTMLDivElement>('#app');
     if (app) {
       app.innerHTML = `
-        <div style="padding: 20px; color: red;">
+        <div style="padding: 20px; color: var(--error);">
           <h2>Error loading visualization</h2>
-          <p>${error instanceof Error ? error.message : 'Unknown error occurred'}</p>
-          <p>Please ensure the blog post is accessible at the configured URL.</p>
+          <p>${escapeHtml(error instanceof Error ? error.message : 'Unknown error occurred')}</p>
+          <p>Please ensure the configured data source is accessible.</p>
         </div>
       `;
     }
@@ -40,3 +211,11 @@ async function init() {
 
 init();
 
+if (import.meta.hot) {
+  import.meta.hot.dispose(() => {
+    currentView?.destroy();
+    currentView = null;
+    document.querySelectorAll('.data-notice, .diagnostics-panel').forEach(element => element.remove());
+  });
+  import.meta.hot.accept();
+}
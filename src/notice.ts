@@ -0,0 +1,38 @@
+export interface NoticeAction {
+  label: string;
+  onClick: () => void;
+}
+
+/**
+ * Shows a small dismissible banner at the top of the page (e.g. "data updated").
+ * Only one notice is shown at a time; a new one replaces the previous.
+ */
+export function showNotice(message: string, action?: NoticeAction): HTMLDivElement {
+  document.querySelector('.data-notice')?.remove();
+
+  const notice = document.createElement('div');
+  notice.className = 'data-notice';
+  notice.setAttribute('role', 'status');
+
+  const text = document.createElement('span');
+  text.textContent = message;
+  notice.appendChild(text);
+
+  if (action) {
+    const actionButton = document.createElement('button');
+    actionButton.className = 'data-notice-action';
+    actionButton.textContent = action.label;
+    actionButton.addEventListener('click', action.onClick);
+    notice.appendChild(actionButton);
+  }
+
+  const closeButton = document.createElement('button');
+  closeButton.className = 'data-notice-close';
+  closeButton.textContent = '×';
+  closeButton.setAttribute('aria-label', 'Dismiss');
+  closeButton.addEventListener('click', () => notice.remove());
+  notice.appendChild(closeButton);
+
+  document.body.appendChild(notice);
+  return notice;
+}
@@ -0,0 +1,156 @@
+import { DEFAULT_ORDERING, REVEAL_ORDERS, SORT_KEYS, isFiltered, isRevealOrder, isSortKey, randomSeed } from './levelOrder';
+import type { LevelFilter, LevelOrdering } from './levelOrder';
+
+interface OrderMenuConfig {
+  ordering: LevelOrdering;
+  publishers: string[];
+  onChange: (ordering: LevelOrdering) => void;
+}
+
+function appendOptions(select: HTMLSelectElement, options: { value: string; label: string }[]): void {
+  options.forEach(({ value, label }) => {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    select.appendChild(option);
+  });
+}
+
+/** Wraps a form control in a label, as the navigation bar menus lay out their fields. */
+export function labelled(text: string, control: HTMLElement): HTMLLabelElement {
+  const label = document.createElement('label');
+  label.textContent = text;
+  label.appendChild(control);
+  return label;
+}
+
+function parseBound(input: HTMLInputElement): number | null {
+  const value = input.value.trim() === '' ? NaN : Number(input.value);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Dropdown for the reveal order, the x-axis sort and the publisher and difficulty filters.
+ */
+export class OrderMenu {
+  readonly element: HTMLDetailsElement;
+  private config: OrderMenuConfig;
+  private ordering: LevelOrdering;
+  private summary!: HTMLElement;
+  private revealSelect!: HTMLSelectElement;
+  private shuffleButton!: HTMLButtonElement;
+  private sortSelect!: HTMLSelectElement;
+  private publisherSelect!: HTMLSelectElement;
+  private minInput!: HTMLInputElement;
+  private maxInput!: HTMLInputElement;
+
+  constructor(config: OrderMenuConfig) {
+    this.config = config;
+    this.ordering = config.ordering;
+    this.element = document.createElement('details');
+    this.element.className = 'order-menu';
+    this.createElements();
+    this.setPublishers(config.publishers);
+    this.setOrdering(config.ordering);
+  }
+
+  private createElements(): void {
+    this.summary = document.createElement('summary');
+    this.summary.className = 'nav-button order-toggle';
+    this.element.appendChild(this.summary);
+
+    const panel = document.createElement('div');
+    panel.className = 'order-options';
+
+    this.revealSelect = document.createElement('select');
+    appendOptions(this.revealSelect, REVEAL_ORDERS);
+    this.revealSelect.addEventListener('change', () => {
+      if (!isRevealOrder(this.revealSelect.value)) return;
+      this.change({ revealOrder: this.revealSelect.value, seed: this.revealSelect.value === 'random' ? randomSeed() : 0 });
+    });
+    this.shuffleButton = document.createElement('button');
+    this.shuffleButton.className = 'nav-button';
+    this.shuffleButton.textContent = 'Shuffle again';
+    this.shuffleButton.addEventListener('click', () => this.change({ seed: randomSeed() }));
+
+    this.sortSelect = document.createElement('select');
+    appendOptions(this.sortSelect, SORT_KEYS);
+    this.sortSelect.addEventListener('change', () => {
+      if (isSortKey(this.sortSelect.value)) this.change({ sortBy: this.sortSelect.value });
+    });
+
+    this.publisherSelect = document.createElement('select');
+    this.publisherSelect.addEventListener('change', () => {
+      this.changeFilter({ publisher: this.publisherSelect.value || null });
+    });
+
+    const range = document.createElement('div');
+    range.className = 'order-range';
+    this.minInput = document.createElement('input');
+    this.maxInput = document.createElement('input');
+    [this.minInput, this.maxInput].forEach(input => {
+      input.type = 'number';
+      input.min = '0';
+      input.step = 'any';
+      input.addEventListener('change', () => {
+        this.changeFilter({ minDifficulty: parseBound(this.minInput), maxDifficulty: parseBound(this.maxInput) });
+      });
+    });
+    this.minInput.placeholder = 'Min';
+    this.minInput.setAttribute('aria-label', 'Minimum difficulty');
+    this.maxInput.placeholder = 'Max';
+    this.maxInput.setAttribute('aria-label', 'Maximum difficulty');
+    range.appendChild(this.minInput);
+    range.appendChild(document.createTextNode('–'));
+    range.appendChild(this.maxInput);
+
+    const resetButton = document.createElement('button');
+    resetButton.className = 'nav-button';
+    resetButton.textContent = 'Reset';
+    resetButton.addEventListener('click', () => this.change(DEFAULT_ORDERING));
+
+    panel.appendChild(labelled('Reveal order', this.revealSelect));
+    panel.appendChild(this.shuffleButton);
+    panel.appendChild(labelled('Sort bars by', this.sortSelect));
+    panel.appendChild(labelled('Publisher', this.publisherSelect));
+    const rangeLabel = document.createElement('div');
+    rangeLabel.className = 'order-range-label';
+    rangeLabel.textContent = 'Difficulty';
+    panel.appendChild(rangeLabel);
+    panel.appendChild(range);
+    panel.appendChild(resetButton);
+    this.element.appendChild(panel);
+  }
+
+  /** Shows an ordering set elsewhere (a shared link, the command palette clearing a filter). */
+  public setOrdering(ordering: LevelOrdering): void {
+    this.ordering = ordering;
+    this.revealSelect.value = ordering.revealOrder;
+    this.shuffleButton.hidden = ordering.revealOrder !== 'random';
+    this.sortSelect.value = ordering.sortBy;
+    this.publisherSelect.value = ordering.filter.publisher ?? '';
+    this.minInput.value = ordering.filter.minDifficulty === null ? '' : String(ordering.filter.minDifficulty);
+    this.maxInput.value = ordering.filter.maxDifficulty === null ? '' : String(ordering.filter.maxDifficulty);
+    this.summary.textContent = isFiltered(ordering.filter) ? 'Sort & filter •' : 'Sort & filter';
+  }
+
+  /** Refills the publisher filter after the level list changed. */
+  public setPublishers(publishers: string[]): void {
+    const selected = this.publisherSelect.value;
+    this.publisherSelect.replaceChildren();
+    appendOptions(this.publisherSelect, [
+      { value: '', label: 'All publishers' },
+      ...publishers.map(publisher => ({ value: publisher, label: publisher }))
+    ]);
+    this.publisherSelect.value = publishers.includes(selected) ? selected : '';
+  }
+
+  private changeFilter(changes: Partial<LevelFilter>): void {
+    this.change({ filter: { ...this.ordering.filter, ...changes } });
+  }
+
+  private change(changes: Partial<LevelOrdering>): void {
+    this.setOrdering({ ...this.ordering, ...changes });
+    this.config.onChange(this.ordering);
+  }
+}
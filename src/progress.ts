@@ -0,0 +1,85 @@
+import * as d3 from 'd3';
+import type { LevelData } from './dataParser';
+import { safeStorage } from './safeStorage';
+
+/** Where the viewer stands on a level. Levels without an entry haven't been started. */
+export type LevelProgress = 'beaten' | 'in-progress';
+
+/** The viewer's progress by level name, so it follows a level when the list is re-sorted or refreshed. */
+export type ProgressMap = Map<string, LevelProgress>;
+
+export const PROGRESS_STATES: { value: LevelProgress; label: string }[] = [
+  { value: 'beaten', label: 'Beaten' },
+  { value: 'in-progress', label: 'In progress' }
+];
+
+/** Version of the progress file written by `serializeProgress()`. */
+export const PROGRESS_FILE_VERSION = 1;
+
+const PROGRESS_STORAGE_PREFIX = 'gd-viz:progress:';
+
+export interface ProgressSummary {
+  beaten: number;
+  inProgress: number;
+  /** The viewer's hardest completion in the list, where the "you are here" line is drawn */
+  hardest: LevelData | null;
+  /** The easiest level in the list that is harder than `hardest` and not beaten yet */
+  next: LevelData | null;
+  /** How many times harder `next` is than `hardest` */
+  ratio: number | null;
+}
+
+export function isLevelProgress(value: unknown): value is LevelProgress {
+  return PROGRESS_STATES.some(option => option.value === value);
+}
+
+/**
+ * Reads a progress file (`{ version, progress: { [level name]: state } }`). Throws on anything
+ * that isn't one, so an import can report it; unknown states are skipped.
+ */
+export function parseProgress(text: string): ProgressMap {
+  const parsed = JSON.parse(text);
+  if (typeof parsed?.version === 'number' && parsed.version > PROGRESS_FILE_VERSION) {
+    throw new Error(`Progress file version ${parsed.version} is newer than supported version ${PROGRESS_FILE_VERSION}`);
+  }
+  if (typeof parsed?.progress !== 'object' || parsed.progress === null || Array.isArray(parsed.progress)) {
+    throw new Error('Progress file must be an object with a "progress" map of level names');
+  }
+  return new Map(Object.entries(parsed.progress as Record<string, unknown>)
+    .filter((entry): entry is [string, LevelProgress] => isLevelProgress(entry[1])));
+}
+
+export function serializeProgress(progress: ProgressMap): string {
+  return JSON.stringify({ version: PROGRESS_FILE_VERSION, progress: Object.fromEntries(progress) }, null, 2);
+}
+
+// A corrupt saved entry starts over with no progress
+export function readProgress(storageKey: string): ProgressMap {
+  const stored = safeStorage.get(PROGRESS_STORAGE_PREFIX + storageKey);
+  try {
+    return stored ? parseProgress(stored) : new Map();
+  } catch {
+    return new Map();
+  }
+}
+
+export function writeProgress(storageKey: string, progress: ProgressMap): void {
+  safeStorage.set(PROGRESS_STORAGE_PREFIX + storageKey, serializeProgress(progress), 'progress');
+}
+
+/** Counts the viewer's progress on these levels and finds the next step up from their hardest completion. */
+export function summarizeProgress(levels: LevelData[], progress: ProgressMap): ProgressSummary {
+  const beaten = levels.filter(level => progress.get(level.name) === 'beaten');
+  const hardest = d3.greatest(beaten, level => level.difficulty) ?? null;
+  const next = d3.least(
+    levels.filter(level => progress.get(level.name) !== 'beaten' && (!hardest || level.difficulty > hardest.difficulty)),
+    level => level.difficulty
+  ) ?? null;
+  return {
+    beaten: beaten.length,
+    inProgress: levels.filter(level => progress.get(level.name) === 'in-progress').length,
+    hardest,
+    next,
+    ratio: hardest && next && hardest.difficulty > 0 ? next.difficulty / hardest.difficulty : null
+  };
+}
@@ -0,0 +1,113 @@
+import { download } from './chartExport';
+import { formatRatio } from './compareView';
+import { parseProgress, serializeProgress } from './progress';
+import type { ProgressMap, ProgressSummary } from './progress';
+
+interface ProgressMenuConfig {
+  getProgress: () => ProgressMap;
+  /** Progress read from an imported file, to be merged into the viewer's */
+  onImport: (progress: ProgressMap) => void;
+}
+
+/** One-line answer to "where do I stand" for the progress menu. */
+export function describeProgress(summary: ProgressSummary): string {
+  if (!summary.hardest) {
+    return 'Mark the levels you have beaten to see where you stand.';
+  }
+  if (!summary.next) {
+    return `${summary.hardest.name} is your hardest completion, and nothing in this list is harder.`;
+  }
+  const ratio = summary.ratio !== null ? `, ${formatRatio(summary.ratio)} harder` : '';
+  return `${summary.hardest.name} is your hardest completion. Next up: ${summary.next.name}${ratio}.`;
+}
+
+/**
+ * Dropdown summarizing the viewer's progress, with export to and import from a JSON file.
+ */
+export class ProgressMenu {
+  readonly element: HTMLDetailsElement;
+  private config: ProgressMenuConfig;
+  private summary!: HTMLElement;
+  private description!: HTMLParagraphElement;
+  private counts!: HTMLParagraphElement;
+  private status!: HTMLParagraphElement;
+  private fileInput!: HTMLInputElement;
+
+  constructor(config: ProgressMenuConfig) {
+    this.config = config;
+    this.element = document.createElement('details');
+    this.element.className = 'progress-menu';
+    this.createElements();
+  }
+
+  private createElements(): void {
+    this.summary = document.createElement('summary');
+    this.summary.className = 'nav-button progress-toggle';
+    this.summary.textContent = 'Progress';
+    this.element.appendChild(this.summary);
+
+    const panel = document.createElement('div');
+    panel.className = 'progress-options';
+
+    this.description = document.createElement('p');
+    this.description.className = 'progress-description';
+    this.counts = document.createElement('p');
+    this.counts.className = 'progress-counts';
+    this.status = document.createElement('p');
+    this.status.className = 'progress-status';
+    this.status.setAttribute('role', 'status');
+
+    this.fileInput = document.createElement('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = 'application/json,.json';
+    this.fileInput.hidden = true;
+    this.fileInput.addEventListener('change', () => {
+      const file = this.fileInput.files?.[0];
+      this.fileInput.value = '';
+      if (file) void this.import(file);
+    });
+
+    const buttons = document.createElement('div');
+    buttons.className = 'export-buttons';
+    const exportButton = document.createElement('button');
+    exportButton.className = 'nav-button';
+    exportButton.textContent = 'Export';
+    exportButton.addEventListener('click', () => this.export());
+    const importButton = document.createElement('button');
+    importButton.className = 'nav-button';
+    importButton.textContent = 'Import';
+    importButton.addEventListener('click', () => this.fileInput.click());
+    buttons.appendChild(exportButton);
+    buttons.appendChild(importButton);
+
+    panel.appendChild(this.description);
+    panel.appendChild(this.counts);
+    panel.appendChild(buttons);
+    panel.appendChild(this.status);
+    panel.appendChild(this.fileInput);
+    this.element.appendChild(panel);
+  }
+
+  /** Shows the progress on the current level list. */
+  public setSummary(summary: ProgressSummary): void {
+    this.summary.textContent = summary.beaten > 0 ? `Progress (${summary.beaten})` : 'Progress';
+    this.description.textContent = describeProgress(summary);
+    this.counts.textContent = `${summary.beaten.toLocaleString()} beaten, ${summary.inProgress.toLocaleString()} in progress`;
+  }
+
+  private export(): void {
+    download(new Blob([serializeProgress(this.config.getProgress())], { type: 'application/json' }), 'gd-progress.json');
+    this.status.textContent = '';
+  }
+
+  /** Merges a progress file into the viewer's; its entries win where both have a level. */
+  private async import(file: Blob): Promise<void> {
+    try {
+      const progress = parseProgress(await file.text());
+      this.config.onImport(progress);
+      this.status.textContent = `Imported progress on ${progress.size.toLocaleString()} ${progress.size === 1 ? 'level' : 'levels'}.`;
+    } catch (error) {
+      this.status.textContent = `Could not import progress: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
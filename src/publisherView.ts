@@ -0,0 +1,249 @@
+import * as d3 from 'd3';
+import type { LevelData } from './dataParser';
+
+const ROW_HEIGHT = 26;
+const LABEL_WIDTH = 180;
+const VALUE_WIDTH = 160;
+const MAX_NAME_LENGTH = 24;
+const CHART_WIDTH = 760;
+
+/** Per-publisher figure the bars show and the rows are sorted by (largest first). */
+export type PublisherMetric = 'count' | 'hardest' | 'median' | 'total';
+
+export const PUBLISHER_METRICS: { value: PublisherMetric; label: string }[] = [
+  { value: 'count', label: 'Number of levels' },
+  { value: 'hardest', label: 'Hardest level' },
+  { value: 'median', label: 'Median difficulty' },
+  { value: 'total', label: 'Total difficulty' }
+];
+
+export interface PublisherStats {
+  publisher: string;
+  count: number;
+  hardest: LevelData;
+  median: number;
+  total: number;
+}
+
+interface PublisherViewConfig {
+  /** The chart root the overlay is mounted in, so it takes the chart's theme */
+  container: HTMLElement;
+  /** A publisher was clicked, or null to show everyone's levels again */
+  onSelect: (publisher: string | null) => void;
+}
+
+function isPublisherMetric(value: unknown): value is PublisherMetric {
+  return PUBLISHER_METRICS.some(option => option.value === value);
+}
+
+/** Groups levels by publisher; levels without one are left out. */
+export function aggregateByPublisher(levels: LevelData[]): PublisherStats[] {
+  return d3.rollups(
+    levels.filter(level => level.publisher),
+    group => ({
+      count: group.length,
+      hardest: d3.greatest(group, level => level.difficulty)!,
+      median: d3.median(group, level => level.difficulty)!,
+      total: d3.sum(group, level => level.difficulty)
+    }),
+    level => level.publisher
+  ).map(([publisher, stats]) => ({ publisher, ...stats }));
+}
+
+export function metricValue(stats: PublisherStats, metric: PublisherMetric): number {
+  switch (metric) {
+    case 'count':
+      return stats.count;
+    case 'hardest':
+      return stats.hardest.difficulty;
+    case 'median':
+      return stats.median;
+    case 'total':
+      return stats.total;
+  }
+}
+
+// Long names are cut short to fit the label column; the row's tooltip has the full name
+function shortName(name: string): string {
+  return name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 1).trimEnd()}…` : name;
+}
+
+function describePublisher(stats: PublisherStats): string {
+  const levels = stats.count === 1 ? '1 level' : `${stats.count.toLocaleString()} levels`;
+  return `${stats.publisher}: ${levels}, hardest ${stats.hardest.name} (${stats.hardest.difficulty.toLocaleString()}), `
+    + `median ${stats.median.toLocaleString()}, total ${stats.total.toLocaleString()}`;
+}
+
+/**
+ * Bar chart of the level list grouped by publisher, in the same kind of overlay as compare
+ * mode. Rows are sorted by the chosen metric so the creators at the top end stand out;
+ * clicking one filters the main chart to their levels.
+ */
+export class PublisherView {
+  private config: PublisherViewConfig;
+  private overlay!: HTMLDivElement;
+  private metricSelect!: HTMLSelectElement;
+  private showAllButton!: HTMLButtonElement;
+  private hint!: HTMLParagraphElement;
+  private svg!: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  private previousFocus: Element | null = null;
+  private levels: LevelData[] = [];
+  private activePublisher: string | null = null;
+
+  constructor(config: PublisherViewConfig) {
+    this.config = config;
+    this.createElements();
+  }
+
+  private createElements(): void {
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'compare-overlay';
+    this.overlay.hidden = true;
+    this.overlay.addEventListener('mousedown', (ev: MouseEvent) => {
+      if (ev.target === this.overlay) this.close();
+    });
+    this.overlay.addEventListener('keydown', (ev: KeyboardEvent) => {
+      if (ev.key === 'Escape') {
+        ev.stopPropagation();
+        this.close();
+      }
+    });
+
+    const dialog = document.createElement('div');
+    dialog.className = 'compare-dialog publisher-dialog';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-label', 'Levels by publisher');
+    dialog.tabIndex = -1;
+
+    const header = document.createElement('div');
+    header.className = 'compare-header';
+    const heading = document.createElement('h2');
+    heading.textContent = 'Publishers';
+    const closeButton = document.createElement('button');
+    closeButton.className = 'compare-close';
+    closeButton.textContent = '×';
+    closeButton.setAttribute('aria-label', 'Close publishers');
+    closeButton.addEventListener('click', () => this.close());
+    header.appendChild(heading);
+    header.appendChild(closeButton);
+
+    const toolbar = document.createElement('div');
+    toolbar.className = 'publisher-toolbar';
+    const metricLabel = document.createElement('label');
+    metricLabel.textContent = 'Sort by ';
+    this.metricSelect = document.createElement('select');
+    PUBLISHER_METRICS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.metricSelect.appendChild(option);
+    });
+    this.metricSelect.addEventListener('change', () => this.render(this.levels, this.activePublisher));
+    metricLabel.appendChild(this.metricSelect);
+    this.showAllButton = document.createElement('button');
+    this.showAllButton.className = 'compare-unpin';
+    this.showAllButton.textContent = 'Show all publishers';
+    this.showAllButton.addEventListener('click', () => this.select(null));
+    toolbar.appendChild(metricLabel);
+    toolbar.appendChild(this.showAllButton);
+
+    this.hint = document.createElement('p');
+    this.hint.className = 'compare-hint';
+
+    const chart = document.createElement('div');
+    chart.className = 'publisher-chart';
+    this.svg = d3.select(chart).append('svg').attr('role', 'list');
+
+    dialog.appendChild(header);
+    dialog.appendChild(toolbar);
+    dialog.appendChild(this.hint);
+    dialog.appendChild(chart);
+    this.overlay.appendChild(dialog);
+    this.config.container.appendChild(this.overlay);
+  }
+
+  public isOpen(): boolean {
+    return !this.overlay.hidden;
+  }
+
+  /** Opens the view for a level list; `activePublisher` is the one the main chart is filtered to. */
+  public open(levels: LevelData[], activePublisher: string | null): void {
+    this.previousFocus = document.activeElement;
+    this.render(levels, activePublisher);
+    this.overlay.hidden = false;
+    this.overlay.querySelector<HTMLElement>('.compare-dialog')?.focus();
+  }
+
+  public close(): void {
+    this.overlay.hidden = true;
+    if (this.previousFocus instanceof HTMLElement || this.previousFocus instanceof SVGElement) {
+      this.previousFocus.focus();
+    }
+  }
+
+  public destroy(): void {
+    this.overlay.remove();
+  }
+
+  /** Re-renders the view, e.g. after the level list was updated. */
+  public render(levels: LevelData[], activePublisher: string | null): void {
+    this.levels = levels;
+    this.activePublisher = activePublisher;
+    const metric = isPublisherMetric(this.metricSelect.value) ? this.metricSelect.value : 'count';
+    const stats = aggregateByPublisher(levels)
+      .sort((a, b) => metricValue(b, metric) - metricValue(a, metric) || a.publisher.localeCompare(b.publisher));
+
+    this.showAllButton.hidden = activePublisher === null;
+    this.hint.textContent = stats.length === 0
+      ? 'None of the levels in this list name a publisher.'
+      : `${stats.length.toLocaleString()} publishers. Click one to show only their levels in the chart.`;
+
+    const x = d3.scaleLinear()
+      .domain([0, d3.max(stats, d => metricValue(d, metric)) ?? 0])
+      .range([0, CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH]);
+    const height = stats.length * ROW_HEIGHT;
+    this.svg
+      .attr('width', CHART_WIDTH)
+      .attr('height', height)
+      .attr('viewBox', `0 0 ${CHART_WIDTH} ${height}`);
+
+    const rows = this.svg.selectAll<SVGGElement, PublisherStats>('.publisher-row')
+      .data(stats, d => d.publisher)
+      .join(enter => {
+        const row = enter.append('g')
+          .attr('class', 'publisher-row')
+          .attr('role', 'listitem')
+          .attr('tabindex', 0);
+        row.append('title');
+        row.append('rect').attr('class', 'publisher-row-background').attr('height', ROW_HEIGHT);
+        row.append('text').attr('class', 'publisher-name').attr('x', LABEL_WIDTH - 8).attr('y', ROW_HEIGHT / 2).attr('dy', '0.35em');
+        row.append('rect').attr('class', 'publisher-bar').attr('x', LABEL_WIDTH).attr('y', 4).attr('height', ROW_HEIGHT - 8);
+        row.append('text').attr('class', 'publisher-value').attr('y', ROW_HEIGHT / 2).attr('dy', '0.35em');
+        return row;
+      })
+      .attr('transform', (_, i) => `translate(0,${i * ROW_HEIGHT})`)
+      .attr('aria-label', d => describePublisher(d))
+      .attr('aria-current', d => d.publisher === activePublisher ? 'true' : null)
+      .classed('active', d => d.publisher === activePublisher)
+      .on('click', (_, d) => this.select(d.publisher))
+      .on('keydown', (ev: KeyboardEvent, d) => {
+        if (ev.key !== 'Enter' && ev.key !== ' ') return;
+        ev.preventDefault();
+        this.select(d.publisher);
+      });
+
+    rows.select('title').text(d => describePublisher(d));
+    rows.select('.publisher-row-background').attr('width', CHART_WIDTH);
+    rows.select('.publisher-name').text(d => shortName(d.publisher));
+    rows.select('.publisher-bar').attr('width', d => Math.max(1, x(metricValue(d, metric))));
+    rows.select('.publisher-value')
+      .attr('x', d => LABEL_WIDTH + Math.max(1, x(metricValue(d, metric))) + 6)
+      .text(d => metric === 'hardest' ? `${d.hardest.difficulty.toLocaleString()} · ${d.hardest.name}` : metricValue(d, metric).toLocaleString());
+  }
+
+  private select(publisher: string | null): void {
+    this.close();
+    this.config.onSelect(publisher);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * localStorage access that never throws. Storage can be unavailable (private browsing,
+ * disabled cookies) or full, so a failed read comes back as null and a failed write is
+ * logged and otherwise ignored: callers carry on as if nothing had been saved.
+ */
+export const safeStorage = {
+  get(key: string): string | null {
+    try {
+      return window.localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  },
+
+  /** Stores `value` under `key`; `description` names what was being saved in the warning. */
+  set(key: string, value: string, description: string): void {
+    try {
+      window.localStorage.setItem(key, value);
+    } catch (error) {
+      console.warn(`Could not save ${description}:`, error);
+    }
+  }
+};
@@ -0,0 +1,115 @@
+// Tags allowed in commentary HTML; anything else is unwrapped (its text kept) or dropped
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'figcaption', 'figure',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p',
+  'pre', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+// Elements whose content must never be kept, not even as text
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'form', 'svg', 'math']);
+
+const GLOBAL_ATTRIBUTES = ['title', 'class'];
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  li: ['value'],
+  ol: ['start', 'reversed'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope']
+};
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+const SAFE_URL_SCHEMES = new Set(['http:', 'https:', 'mailto:']);
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Returns the URL if it is an absolute http(s) link (or, with `allowRelative`, a relative
+ * path or fragment), otherwise null. Rejects `javascript:`, `data:` and similar schemes.
+ */
+export function safeUrl(url: string | null | undefined, allowRelative: boolean = false): string | null {
+  if (!url) return null;
+  const trimmed = url.trim();
+  // Browsers ignore whitespace and control characters inside schemes ("java\tscript:")
+  const normalized = trimmed.replace(/[\u0000-\u001f\u007f\s]+/g, '');
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme) {
+    return SAFE_URL_SCHEMES.has(scheme[1].toLowerCase() + ':') ? trimmed : null;
+  }
+  return allowRelative && !normalized.startsWith('//') ? trimmed : null;
+}
+
+function isExternalLink(href: string): boolean {
+  return /^https?:/i.test(href);
+}
+
+function sanitizeNode(node: Node): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      // Comments, processing instructions, CDATA
+      child.remove();
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      // Keep the content of unknown wrappers (e.g. <section>, <font>) but not the wrapper itself
+      sanitizeNode(element);
+      element.replaceWith(...Array.from(element.childNodes));
+      continue;
+    }
+
+    const allowed = [...GLOBAL_ATTRIBUTES, ...(ALLOWED_ATTRIBUTES[tag] ?? [])];
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      if (!allowed.includes(name)) {
+        element.removeAttribute(attribute.name);
+      } else if (URL_ATTRIBUTES.has(name) && safeUrl(attribute.value, true) === null) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+
+    if (tag === 'a') {
+      const href = element.getAttribute('href');
+      if (href && isExternalLink(href)) {
+        element.setAttribute('target', '_blank');
+        element.setAttribute('rel', 'noopener noreferrer');
+      }
+    }
+
+    sanitizeNode(element);
+  }
+}
+
+/**
+ * Allowlist-based HTML sanitizer for level commentary. Parses with DOMParser (inert: no
+ * scripts run, no resources load), keeps only known-safe tags and attributes, drops unsafe
+ * URLs and opens external links in a new tab with `rel="noopener noreferrer"`.
+ */
+export function sanitizeHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  sanitizeNode(doc.body);
+  return doc.body.innerHTML;
+}
+
+/**
+ * Text content of an HTML fragment with whitespace collapsed, for searching and excerpts. The
+ * DOMParser document is inert, so nothing in the fragment loads or runs.
+ */
+export function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent?.replace(/\s+/g, ' ').trim() || '';
+}
@@ -0,0 +1,66 @@
+import * as d3 from 'd3';
+import type { NumberValue, ScaleContinuousNumeric } from 'd3';
+
+export type ScaleMode = 'linear' | 'log' | 'symlog' | 'sqrt';
+
+export const SCALE_MODES: { mode: ScaleMode; label: string }[] = [
+  { mode: 'linear', label: 'Linear' },
+  { mode: 'log', label: 'Logarithmic' },
+  { mode: 'symlog', label: 'Symlog' },
+  { mode: 'sqrt', label: 'Square root' }
+];
+
+export function isScaleMode(value: unknown): value is ScaleMode {
+  return SCALE_MODES.some(option => option.mode === value);
+}
+
+/**
+ * Builds the y-scale for the given difficulties. Linear, sqrt and symlog start at zero;
+ * log starts one power of ten below the smallest positive difficulty so the easiest
+ * visible bar still has some height. All scales clamp so out-of-domain values stay on the chart.
+ */
+export function createDifficultyScale(
+  mode: ScaleMode,
+  difficulties: number[],
+  range: [number, number]
+): ScaleContinuousNumeric<number, number> {
+  const max = d3.max(difficulties) || 1;
+  let scale: ScaleContinuousNumeric<number, number>;
+
+  switch (mode) {
+    case 'log': {
+      const minPositive = d3.min(difficulties.filter(d => d > 0)) ?? 1;
+      let lower = Math.pow(10, Math.floor(Math.log10(minPositive)));
+      if (lower >= minPositive) lower /= 10;
+      scale = d3.scaleLog().domain([lower, Math.max(max, lower * 10)]);
+      break;
+    }
+    case 'symlog':
+      scale = d3.scaleSymlog().domain([0, max]);
+      break;
+    case 'sqrt':
+      scale = d3.scaleSqrt().domain([0, max]);
+      break;
+    default:
+      scale = d3.scaleLinear().domain([0, max]);
+  }
+
+  return scale.range(range).clamp(true);
+}
+
+/**
+ * Tick labels for a difficulty scale: SI suffixes from 1000 up (10k, 2.5M), plain numbers below,
+ * where a suffix like "500m" would read as millions. Log scales keep d3's choice of which ticks
+ * get a label.
+ */
+export function difficultyTickFormat(
+  scale: ScaleContinuousNumeric<number, number>,
+  count: number
+): (value: NumberValue) => string {
+  const si = scale.tickFormat(count, '~s');
+  const plain = d3.format('~g');
+  return value => {
+    const label = si(value);
+    return label && Math.abs(+value) < 1000 ? plain(value) : label;
+  };
+}
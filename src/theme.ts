@@ -0,0 +1,99 @@
+import { safeStorage } from './safeStorage';
+
+export type Theme = 'dark' | 'light' | 'high-contrast';
+
+/** A fixed theme, or 'system' to follow the OS colour scheme and contrast settings. */
+export type ThemePreference = Theme | 'system';
+
+export const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'System theme' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'light', label: 'Light' },
+  { value: 'high-contrast', label: 'High contrast' }
+];
+
+const THEME_STORAGE_KEY = 'gd-viz:theme';
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_OPTIONS.some(option => option.value === value);
+}
+
+export function readThemePreference(): ThemePreference {
+  const stored = safeStorage.get(THEME_STORAGE_KEY);
+  return isThemePreference(stored) ? stored : 'system';
+}
+
+export function writeThemePreference(preference: ThemePreference): void {
+  safeStorage.set(THEME_STORAGE_KEY, preference, 'theme preference');
+}
+
+function mediaMatches(query: string): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+}
+
+/** Calls `onChange` whenever the OS colour scheme or contrast setting changes, until `signal` aborts. */
+export function watchSystemTheme(onChange: () => void, signal: AbortSignal): void {
+  if (typeof window.matchMedia !== 'function') return;
+  ['(prefers-color-scheme: light)', '(prefers-contrast: more)'].forEach(query => {
+    window.matchMedia(query).addEventListener('change', onChange, { signal });
+  });
+}
+
+/** The theme to show for a preference: 'system' maps `prefers-contrast` and `prefers-color-scheme`. */
+export function resolveTheme(preference: ThemePreference): Theme {
+  if (preference !== 'system') return preference;
+  if (mediaMatches('(prefers-contrast: more)')) return 'high-contrast';
+  return mediaMatches('(prefers-color-scheme: light)') ? 'light' : 'dark';
+}
+
+/** Sets the theme tokens from style.css by tagging the root element with the resolved theme. */
+export function applyTheme(preference: ThemePreference): Theme {
+  const theme = resolveTheme(preference);
+  document.documentElement.dataset.theme = theme;
+  return theme;
+}
+
+/**
+ * Theme picker for the navigation bar. The choice is saved locally; while it is 'system'
+ * the page follows changes to the OS settings without a reload.
+ */
+export class ThemeSwitcher {
+  public readonly element: HTMLSelectElement;
+  private preference: ThemePreference;
+  private listeners = new AbortController();
+
+  constructor() {
+    this.preference = readThemePreference();
+    applyTheme(this.preference);
+
+    this.element = document.createElement('select');
+    this.element.className = 'nav-select theme-select';
+    this.element.setAttribute('aria-label', 'Colour theme');
+    THEME_OPTIONS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.element.appendChild(option);
+    });
+    this.element.value = this.preference;
+    this.element.addEventListener('change', () => {
+      if (isThemePreference(this.element.value)) this.setPreference(this.element.value);
+    });
+
+    watchSystemTheme(() => {
+      if (this.preference === 'system') applyTheme('system');
+    }, this.listeners.signal);
+  }
+
+  /** Stops following the system settings; the select itself goes away with the nav bar. */
+  public destroy(): void {
+    this.listeners.abort();
+  }
+
+  public setPreference(preference: ThemePreference): void {
+    this.preference = preference;
+    this.element.value = preference;
+    writeThemePreference(preference);
+    applyTheme(preference);
+  }
+}
@@ -0,0 +1,56 @@
+import type { LevelData } from './dataParser';
+
+export interface TierDefinition {
+  name: string;
+  /** Lowest difficulty that belongs to this tier (inclusive) */
+  minDifficulty: number;
+  /** Any CSS colour; the defaults reference theme variables from style.css */
+  color: string;
+}
+
+/**
+ * Community difficulty tiers with thresholds on the difficulty value scale, easiest first.
+ * Override them through `VisualizationConfig.tiers` for lists that use another scale.
+ */
+export const DEFAULT_TIERS: TierDefinition[] = [
+  { name: 'Easy', minDifficulty: 0, color: 'var(--tier-easy)' },
+  { name: 'Normal', minDifficulty: 2, color: 'var(--tier-normal)' },
+  { name: 'Hard', minDifficulty: 4, color: 'var(--tier-hard)' },
+  { name: 'Insane', minDifficulty: 8, color: 'var(--tier-insane)' },
+  { name: 'Easy Demon', minDifficulty: 15, color: 'var(--tier-easy-demon)' },
+  { name: 'Medium Demon', minDifficulty: 30, color: 'var(--tier-medium-demon)' },
+  { name: 'Hard Demon', minDifficulty: 60, color: 'var(--tier-hard-demon)' },
+  { name: 'Insane Demon', minDifficulty: 120, color: 'var(--tier-insane-demon)' },
+  { name: 'Extreme Demon', minDifficulty: 250, color: 'var(--tier-extreme-demon)' },
+  { name: 'List-ranked', minDifficulty: 1000, color: 'var(--tier-list)' }
+];
+
+/** Sorts tiers by threshold so lookups and bands can walk them in order. */
+export function sortTiers(tiers: TierDefinition[]): TierDefinition[] {
+  return [...tiers].sort((a, b) => a.minDifficulty - b.minDifficulty);
+}
+
+/**
+ * The tier a level belongs to: its explicit `tier` when that names a known tier
+ * (case-insensitive), otherwise the highest tier whose threshold it reaches.
+ */
+export function tierFor(level: LevelData, sortedTiers: TierDefinition[]): TierDefinition | null {
+  if (level.tier) {
+    const explicit = sortedTiers.find(tier => tier.name.toLowerCase() === level.tier!.toLowerCase());
+    if (explicit) return explicit;
+  }
+  let match: TierDefinition | null = null;
+  for (const tier of sortedTiers) {
+    if (level.difficulty >= tier.minDifficulty) match = tier;
+  }
+  return match ?? sortedTiers[0] ?? null;
+}
+
+/** Difficulty range covered by each tier: from its threshold to the next one (or Infinity). */
+export function tierBounds(sortedTiers: TierDefinition[]): { tier: TierDefinition; min: number; max: number }[] {
+  return sortedTiers.map((tier, i) => ({
+    tier,
+    min: tier.minDifficulty,
+    max: i < sortedTiers.length - 1 ? sortedTiers[i + 1].minDifficulty : Infinity
+  }));
+}
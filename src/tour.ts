@@ -0,0 +1,264 @@
+import type { GDVisualization, ViewState } from './visualization';
+import { YOUTUBE_EMBED_ORIGIN } from './youtube';
+
+/** Step length in milliseconds, or 'video' to advance when the selected level's video ends. */
+export type TourPacing = number | 'video';
+
+export const TOUR_PACING_OPTIONS: { value: TourPacing; label: string }[] = [
+  { value: 2000, label: '2 s' },
+  { value: 4000, label: '4 s' },
+  { value: 8000, label: '8 s' },
+  { value: 15000, label: '15 s' },
+  { value: 30000, label: '30 s' },
+  { value: 'video', label: 'Until video ends' }
+];
+
+// In video mode, give up waiting for a video that never starts (blocked autoplay, no embed)
+const VIDEO_START_TIMEOUT = 10000;
+const PLAYER_STATE_ENDED = 0;
+const PLAYER_STATE_PLAYING = 1;
+
+interface GuidedTourConfig {
+  visualization: GDVisualization;
+  totalLevels: number;
+  pacing?: TourPacing;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// The player reports its state in `onStateChange` events and in `infoDelivery` updates
+function playerStateOf(message: unknown): unknown {
+  if (!isRecord(message)) return undefined;
+  if (message.event === 'onStateChange') return message.info;
+  return isRecord(message.info) ? message.info.playerState : undefined;
+}
+
+/** Parses the `?tour=` query parameter: a step length in seconds or `video`. */
+export function parseTourPacing(value: string | null): TourPacing | null {
+  if (value === null) return null;
+  if (value === 'video') return 'video';
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+}
+
+/**
+ * Autoplay mode that steps the chart forward on a timer (or when each video ends) so the
+ * presentation can run unattended. Any user interaction outside the tour controls pauses it.
+ */
+export class GuidedTour {
+  private visualization: GDVisualization;
+  private totalLevels: number;
+  private pacing: TourPacing;
+  private playing: boolean = false;
+  private stepTimer: number | null = null;
+  private videoStarted: boolean = false;
+  private controls!: HTMLDivElement;
+  private playButton!: HTMLButtonElement;
+  private pacingSelect!: HTMLSelectElement;
+  private progressFill!: HTMLDivElement;
+  private progressLabel!: HTMLSpanElement;
+  private listeners = new AbortController();
+
+  constructor(config: GuidedTourConfig) {
+    this.visualization = config.visualization;
+    this.totalLevels = config.totalLevels;
+    this.pacing = config.pacing ?? 4000;
+
+    this.createControls();
+    this.updateProgress(this.visualization.getViewState());
+
+    // Pause when the user takes over (clicks the chart, presses keys, scrolls the panel, ...)
+    const pauseOnInteraction = (ev: Event) => {
+      if (!this.playing) return;
+      if (ev.target instanceof Node && this.controls.contains(ev.target)) return;
+      this.pause();
+    };
+    const { signal } = this.listeners;
+    document.addEventListener('pointerdown', pauseOnInteraction, { capture: true, signal });
+    document.addEventListener('keydown', pauseOnInteraction, { capture: true, signal });
+    document.addEventListener('wheel', pauseOnInteraction, { capture: true, passive: true, signal });
+
+    window.addEventListener('message', (ev: MessageEvent) => this.handlePlayerMessage(ev), { signal });
+  }
+
+  private createControls(): void {
+    this.controls = document.createElement('div');
+    this.controls.className = 'tour-controls';
+
+    this.playButton = document.createElement('button');
+    this.playButton.className = 'tour-play';
+    this.playButton.addEventListener('click', () => this.toggle());
+
+    this.pacingSelect = document.createElement('select');
+    this.pacingSelect.className = 'tour-pacing';
+    this.pacingSelect.setAttribute('aria-label', 'Tour speed');
+    TOUR_PACING_OPTIONS.forEach(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = String(value);
+      option.textContent = label;
+      this.pacingSelect.appendChild(option);
+    });
+    // Custom intervals (e.g. from the query string) get their own option
+    if (!TOUR_PACING_OPTIONS.some(option => option.value === this.pacing)) {
+      const option = document.createElement('option');
+      option.value = String(this.pacing);
+      option.textContent = `${Number(this.pacing) / 1000} s`;
+      this.pacingSelect.appendChild(option);
+    }
+    this.pacingSelect.value = String(this.pacing);
+    this.pacingSelect.addEventListener('change', () => {
+      const value = this.pacingSelect.value;
+      this.setPacing(value === 'video' ? 'video' : Number(value));
+    });
+
+    const progress = document.createElement('div');
+    progress.className = 'tour-progress';
+    progress.setAttribute('role', 'progressbar');
+    progress.setAttribute('aria-label', 'Levels revealed');
+    progress.setAttribute('aria-valuemin', '1');
+    progress.setAttribute('aria-valuemax', String(this.totalLevels));
+    this.progressFill = document.createElement('div');
+    this.progressFill.className = 'tour-progress-fill';
+    progress.appendChild(this.progressFill);
+
+    this.progressLabel = document.createElement('span');
+    this.progressLabel.className = 'tour-progress-label';
+
+    this.controls.appendChild(this.playButton);
+    this.controls.appendChild(this.pacingSelect);
+    this.controls.appendChild(progress);
+    this.controls.appendChild(this.progressLabel);
+    document.body.appendChild(this.controls);
+    this.updatePlayButton();
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public toggle(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  public play(): void {
+    if (!this.visualization.canGoForward()) return;
+    this.playing = true;
+    this.updatePlayButton();
+    this.scheduleStep();
+  }
+
+  public pause(): void {
+    this.playing = false;
+    this.clearStepTimer();
+    this.updatePlayButton();
+  }
+
+  public setPacing(pacing: TourPacing): void {
+    this.pacing = pacing;
+    this.pacingSelect.value = String(pacing);
+    if (this.playing) this.scheduleStep();
+  }
+
+  /** For when the level list is replaced or re-filtered while the tour is on screen. */
+  public setTotalLevels(totalLevels: number): void {
+    this.totalLevels = totalLevels;
+    this.progressFill.parentElement?.setAttribute('aria-valuemax', String(totalLevels));
+    this.updateProgress(this.visualization.getViewState());
+  }
+
+  public destroy(): void {
+    this.pause();
+    this.listeners.abort();
+    this.controls.remove();
+  }
+
+  /** Keeps the progress indicator in sync with reveals made by the tour or by the user. */
+  public updateProgress(state: ViewState): void {
+    const fraction = this.totalLevels > 0 ? state.visibleLevels / this.totalLevels : 0;
+    this.progressFill.style.width = `${fraction * 100}%`;
+    this.progressLabel.textContent = `${state.visibleLevels} / ${this.totalLevels}`;
+    this.progressFill.parentElement?.setAttribute('aria-valuenow', String(state.visibleLevels));
+  }
+
+  private updatePlayButton(): void {
+    this.playButton.textContent = this.playing ? '❚❚ Pause' : '▶ Play';
+    this.playButton.setAttribute('aria-pressed', this.playing ? 'true' : 'false');
+  }
+
+  private clearStepTimer(): void {
+    if (this.stepTimer !== null) {
+      window.clearTimeout(this.stepTimer);
+      this.stepTimer = null;
+    }
+  }
+
+  private scheduleStep(): void {
+    this.clearStepTimer();
+    if (this.pacing === 'video') {
+      this.waitForVideo();
+    } else {
+      this.stepTimer = window.setTimeout(() => this.step(), this.pacing);
+    }
+  }
+
+  private step(): void {
+    this.stepTimer = null;
+    if (!this.playing) return;
+    this.visualization.goForward();
+    if (this.visualization.canGoForward()) {
+      this.scheduleStep();
+    } else {
+      this.pause();
+    }
+  }
+
+  // Starts the selected level's video via the YouTube iframe postMessage API and advances
+  // when it reports the "ended" state; falls back to a timer if no video plays.
+  private waitForVideo(): void {
+    const frame = this.visualization.loadVideo();
+    this.videoStarted = false;
+    this.stepTimer = window.setTimeout(() => {
+      if (!this.videoStarted) this.step();
+    }, VIDEO_START_TIMEOUT);
+    if (!frame) return;
+
+    const startListening = () => {
+      this.postToPlayer(frame, { event: 'listening', id: 'gd-tour', channel: 'widget' });
+      this.postToPlayer(frame, { event: 'command', func: 'mute', args: [] });
+      this.postToPlayer(frame, { event: 'command', func: 'playVideo', args: [] });
+    };
+    frame.addEventListener('load', startListening, { once: true });
+    // The frame may already have loaded if the level was selected before the tour reached it
+    startListening();
+  }
+
+  private postToPlayer(frame: HTMLIFrameElement, message: object): void {
+    frame.contentWindow?.postMessage(JSON.stringify(message), YOUTUBE_EMBED_ORIGIN);
+  }
+
+  private handlePlayerMessage(ev: MessageEvent): void {
+    if (!this.playing || this.pacing !== 'video' || ev.origin !== YOUTUBE_EMBED_ORIGIN) return;
+    const frame = this.visualization.getVideoFrame();
+    if (!frame || ev.source !== frame.contentWindow) return;
+
+    let data: unknown;
+    try {
+      data = typeof ev.data === 'string' ? JSON.parse(ev.data) : ev.data;
+    } catch {
+      return;
+    }
+    const playerState = playerStateOf(data);
+    if (playerState === PLAYER_STATE_PLAYING && !this.videoStarted) {
+      this.videoStarted = true;
+      this.clearStepTimer();
+    } else if (playerState === PLAYER_STATE_ENDED && this.videoStarted) {
+      this.step();
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { LevelData } from './dataParser';
+import { DEFAULT_ORDERING, isRevealOrder, isSortKey, revealSequence } from './levelOrder';
+import type { LevelOrdering } from './levelOrder';
+import { isScaleMode } from './scales';
+import type { ViewState } from './visualization';
+
+/** Lowercase ASCII slug of a level name, e.g. "Bloodbath" -> "bloodbath", "Sonic Wave" -> "sonic-wave". */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Stable slugs for every level, in data order. Names that slugify to the same string
+ * (or to nothing) are disambiguated with a numeric suffix.
+ */
+export function buildSlugs(levels: LevelData[]): string[] {
+  const counts = new Map<string, number>();
+  return levels.map(level => {
+    const base = slugify(level.name) || 'level';
+    const count = (counts.get(base) ?? 0) + 1;
+    counts.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  });
+}
+
+// An empty value (`min=`) counts as absent rather than as 0
+function readNumber(params: URLSearchParams, name: string): number | null {
+  const raw = params.get(name)?.trim();
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : null;
+}
+
+// `order`, `seed`, `sort`, `publisher`, `min` and `max`; anything missing keeps its default
+function readOrdering(params: URLSearchParams): LevelOrdering | undefined {
+  const names = ['order', 'seed', 'sort', 'publisher', 'min', 'max'];
+  if (!names.some(name => params.has(name))) return undefined;
+  const order = params.get('order');
+  const sort = params.get('sort');
+  return {
+    revealOrder: isRevealOrder(order) ? order : DEFAULT_ORDERING.revealOrder,
+    seed: readNumber(params, 'seed') ?? DEFAULT_ORDERING.seed,
+    sortBy: isSortKey(sort) ? sort : DEFAULT_ORDERING.sortBy,
+    filter: {
+      publisher: params.get('publisher') || null,
+      minDifficulty: readNumber(params, 'min'),
+      maxDifficulty: readNumber(params, 'max')
+    }
+  };
+}
+
+/**
+ * Reads the view state from a URL hash such as `#reveal=tartarus&select=bloodbath&scale=log`,
+ * plus the reveal order, sort and filters if they differ from the defaults. `reveal` names the
+ * last revealed level of the ordered sequence. Unknown slugs and values are ignored so stale
+ * links still open.
+ */
+export function readViewState(levels: LevelData[], hash: string = window.location.hash): Partial<ViewState> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const slugs = buildSlugs(levels);
+  const state: Partial<ViewState> = {};
+  const ordering = readOrdering(params);
+  if (ordering) {
+    state.ordering = ordering;
+  }
+
+  const revealPosition = revealSequence(levels, ordering ?? DEFAULT_ORDERING).indexOf(slugs.indexOf(params.get('reveal') ?? ''));
+  if (revealPosition >= 0) {
+    state.visibleLevels = revealPosition + 1;
+  }
+  const selectIndex = slugs.indexOf(params.get('select') ?? '');
+  if (selectIndex >= 0) {
+    state.selectedLevelIndex = selectIndex;
+  }
+  const scale = params.get('scale');
+  if (isScaleMode(scale)) {
+    state.scaleMode = scale;
+  }
+  return state;
+}
+
+export function formatViewState(levels: LevelData[], state: ViewState): string {
+  const slugs = buildSlugs(levels);
+  const params = new URLSearchParams();
+  const { ordering } = state;
+  const lastRevealed = revealSequence(levels, ordering)[state.visibleLevels - 1];
+  if (lastRevealed !== undefined) {
+    params.set('reveal', slugs[lastRevealed]);
+  }
+  // Selecting the newest revealed level is the default, so leave it out of the link
+  if (state.selectedLevelIndex !== lastRevealed) {
+    params.set('select', slugs[state.selectedLevelIndex]);
+  }
+  if (state.scaleMode !== 'linear') {
+    params.set('scale', state.scaleMode);
+  }
+  if (ordering.revealOrder !== DEFAULT_ORDERING.revealOrder) {
+    params.set('order', ordering.revealOrder);
+  }
+  if (ordering.revealOrder === 'random') {
+    params.set('seed', String(ordering.seed));
+  }
+  if (ordering.sortBy !== DEFAULT_ORDERING.sortBy) {
+    params.set('sort', ordering.sortBy);
+  }
+  if (ordering.filter.publisher !== null) {
+    params.set('publisher', ordering.filter.publisher);
+  }
+  if (ordering.filter.minDifficulty !== null) {
+    params.set('min', String(ordering.filter.minDifficulty));
+  }
+  if (ordering.filter.maxDifficulty !== null) {
+    params.set('max', String(ordering.filter.maxDifficulty));
+  }
+  return `#${params.toString()}`;
+}
+
+/**
+ * Writes the view state into the URL hash. Reveal steps push a history entry so the
+ * browser's back/forward buttons step through the sequence; other changes replace it.
+ */
+export function writeViewState(levels: LevelData[], state: ViewState, mode: 'push' | 'replace'): void {
+  const hash = formatViewState(levels, state);
+  if (hash === window.location.hash) return;
+  const url = `${window.location.pathname}${window.location.search}${hash}`;
+  if (mode === 'push') {
+    history.pushState(null, '', url);
+  } else {
+    history.replaceState(null, '', url);
+  }
+}
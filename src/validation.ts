@@ -0,0 +1,92 @@
+import type { LevelData } from './dataParser';
+
+/**
+ * Version of the level list JSON format described by `schema/level-list.schema.json`.
+ * Bump this whenever a field is added, removed or changes meaning.
+ */
+export const LEVEL_LIST_SCHEMA_VERSION = 3;
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  /** Position of the entry in the list as loaded (before invalid entries are dropped) */
+  index: number;
+  /** Level name if one could be read, to make reports easier to scan */
+  name: string;
+  field: keyof LevelData;
+  message: string;
+}
+
+export interface ValidationResult {
+  /** Entries that passed validation, in their original order */
+  levels: LevelData[];
+  issues: ValidationIssue[];
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks every entry of a parsed level list. Entries with errors (empty or duplicate name,
+ * missing/negative/non-finite difficulty) are dropped because the chart keys its scales and
+ * data joins by name and cannot plot them; warnings (malformed links) are fixed up in place.
+ */
+export function validateLevelData(levels: LevelData[]): ValidationResult {
+  const valid: LevelData[] = [];
+  const issues: ValidationIssue[] = [];
+  const seenNames = new Map<string, number>();
+
+  levels.forEach((level, index) => {
+    const name = level.name?.trim() ?? '';
+    const entryIssues: ValidationIssue[] = [];
+    const report = (severity: ValidationSeverity, field: keyof LevelData, message: string) => {
+      entryIssues.push({ severity, index, name, field, message });
+    };
+
+    if (!name) {
+      report('error', 'name', 'Level name is empty');
+    } else if (seenNames.has(name)) {
+      report('error', 'name', `Duplicate level name (first seen at entry ${seenNames.get(name)})`);
+    }
+
+    if (typeof level.difficulty !== 'number' || !Number.isFinite(level.difficulty)) {
+      report('error', 'difficulty', `Difficulty must be a finite number, got ${String(level.difficulty)}`);
+    } else if (level.difficulty < 0) {
+      report('error', 'difficulty', `Difficulty must not be negative, got ${level.difficulty}`);
+    }
+
+    const cleaned: LevelData = { ...level, name };
+    if (cleaned.youtubeUrl !== null && !isHttpUrl(cleaned.youtubeUrl)) {
+      report('warning', 'youtubeUrl', `Ignoring malformed YouTube URL "${cleaned.youtubeUrl}"`);
+      cleaned.youtubeUrl = null;
+    }
+    if (cleaned.gdBrowserUrl !== null && !isHttpUrl(cleaned.gdBrowserUrl)) {
+      report('warning', 'gdBrowserUrl', `Ignoring malformed GDBrowser URL "${cleaned.gdBrowserUrl}"`);
+      cleaned.gdBrowserUrl = null;
+    }
+
+    issues.push(...entryIssues);
+    if (entryIssues.some(issue => issue.severity === 'error')) {
+      return;
+    }
+    seenNames.set(name, index);
+    valid.push(cleaned);
+  });
+
+  return { levels: valid, issues };
+}
+
+/** Logs validation issues as a console table so broken entries are easy to spot. */
+export function reportValidationIssues(source: string, issues: ValidationIssue[]): void {
+  if (issues.length === 0) return;
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  console.warn(`${source}: ${errorCount} error(s) and ${issues.length - errorCount} warning(s) in level data`);
+  console.table(issues);
+}
@@ -1,36 +1,228 @@
 import * as d3 from 'd3';
 import type { LevelData } from './dataParser';
-import type { ScaleBand, ScaleLinear } from 'd3';
+import type { BrushBehavior, D3BrushEvent, D3ZoomEvent, ScaleBand, ScaleContinuousNumeric, Transition, ZoomBehavior, ZoomTransform } from 'd3';
+import { AnnotationMenu } from './annotationMenu';
+import { readAnnotations, writeAnnotations } from './annotations';
+import type { Annotation } from './annotations';
+import { CanvasBarLayer } from './canvasBars';
+import { CompareView, formatRatio } from './compareView';
+import { DEFAULT_ORDERING, NO_FILTER, matchesFilter, publishersOf, revealSequence, sortLevels } from './levelOrder';
+import type { LevelOrdering } from './levelOrder';
+import { OrderMenu } from './orderMenu';
+import { PROGRESS_STATES, readProgress, summarizeProgress, writeProgress } from './progress';
+import type { LevelProgress, ProgressMap, ProgressSummary } from './progress';
+import { ProgressMenu } from './progressMenu';
+import { PublisherView } from './publisherView';
+import { escapeHtml, safeUrl, sanitizeHtml } from './sanitize';
+import { SCALE_MODES, createDifficultyScale, difficultyTickFormat } from './scales';
+import { DEFAULT_TIERS, sortTiers, tierBounds, tierFor } from './tiers';
+import type { TierDefinition } from './tiers';
+import { parseYouTubeUrl, youTubeEmbedUrl, youTubeThumbnailUrl } from './youtube';
+import type { YouTubeVideo } from './youtube';
+import type { ScaleMode } from './scales';
+
+// Height of the overview strip under the x-axis labels, and the space left below it
+const OVERVIEW_HEIGHT = 32;
+const OVERVIEW_GAP = 12;
+// Zooming stops once this many levels fill the chart width
+const MIN_ZOOMED_LEVELS = 5;
+
+// Default chart animation; chained updates never get less than this fraction of the duration
+const DEFAULT_TRANSITION_DURATION = 3000;
+const MIN_CHAINED_FRACTION = 0.25;
+
+// Space a callout label needs above its bar before it would run out of the plot area
+const CALLOUT_CLEARANCE = 16;
+
+// Canvas renderer: x-axis labels closer together than this are thinned out so they don't overlap
+const MIN_LABEL_SPACING = 14;
+
+function prefersReducedMotion(): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+// Each chart needs its own clip path id in case several are on the page
+let chartCount = 0;
+
+/**
+ * The user-visible view: how far the chart is revealed, which level is selected, the y-scale
+ * and the reveal order, sort and filters. `visibleLevels` counts levels of the ordered,
+ * filtered sequence; `selectedLevelIndex` is a position in the full level list.
+ */
+export interface ViewState {
+  visibleLevels: number;
+  selectedLevelIndex: number;
+  scaleMode: ScaleMode;
+  ordering: LevelOrdering;
+}
+
+/** How chart updates animate. Animation is skipped entirely under `prefers-reduced-motion`. */
+export interface AnimationSettings {
+  /** Length of each transition in milliseconds (default 3000); 0 turns animation off */
+  duration?: number;
+  /** d3 easing function (default d3.easeCubicOut) */
+  easing?: (normalizedTime: number) => number;
+}
+
+/**
+ * How bars are drawn: 'svg' gives every level its own focusable element, 'canvas' paints them
+ * all onto one canvas and hit-tests the pointer, for lists with thousands of levels.
+ */
+export type ChartRenderer = 'svg' | 'canvas';
+
+/**
+ * What caused a view state change: revealing/hiding a level, selecting one, switching scale,
+ * changing the reveal order, sort or filters, or replacing the level list (`setData()`).
+ */
+export type ViewStateChangeReason = 'reveal' | 'select' | 'scale' | 'order' | 'data';
+
+function formatDifficulty(difficulty: number): string {
+  // Show decimals only if needed
+  return difficulty % 1 === 0
+    ? difficulty.toLocaleString()
+    : difficulty.toLocaleString(undefined, { minimumFractionDigits: 1, maximumFractionDigits: 10 });
+}
+
+function describeLevel(level: LevelData): string {
+  const publisher = level.publisher ? ` by ${level.publisher}` : '';
+  return `${level.name}${publisher}, difficulty ${formatDifficulty(level.difficulty)}`;
+}
+
+// Levels can come straight from an embedder (the widget's `levels` property, setData()) rather
+// than a parsed source, so commentary is sanitized again here; levels it leaves unchanged are kept
+function sanitizeCommentary(levels: LevelData[]): LevelData[] {
+  return levels.map(level => {
+    const commentary = level.commentary ? sanitizeHtml(level.commentary) : level.commentary;
+    return commentary === level.commentary ? level : { ...level, commentary };
+  });
+}
 
-interface VisualizationConfig {
+export interface VisualizationConfig {
   container: HTMLElement;
   data: LevelData[];
+  scaleMode?: ScaleMode;
+  initialState?: Partial<ViewState>;
+  /** Difficulty tier thresholds and colours; defaults to DEFAULT_TIERS */
+  tiers?: TierDefinition[];
+  /** Transition settings, or false to apply every update immediately */
+  animation?: AnimationSettings | false;
+  /** Bar renderer (default 'svg') */
+  renderer?: ChartRenderer;
+  /** Reference lines, markers and callouts that come with the level list */
+  annotations?: Annotation[];
+  /**
+   * localStorage key (e.g. the data source) the viewer's own annotations and progress are saved
+   * under; without one they are kept until the chart is destroyed.
+   */
+  storageKey?: string;
+  /**
+   * Handle keyboard shortcuts typed anywhere on the page (default true). Embedded charts set
+   * this to false so they only react while focus is inside them.
+   */
+  globalKeyboard?: boolean;
+  onViewStateChange?: (state: ViewState, reason: ViewStateChangeReason) => void;
 }
 
 export class GDVisualization {
   private data: LevelData[];
+  // Position of each level by name, so lookups don't scan the list
+  private indexByName: Map<string, number> = new Map();
   private container: HTMLElement;
   private svg: any;
   private chartGroup: any;
   private xScale: ScaleBand<string>;
-  private yScale: ScaleLinear<number, number>;
+  private yScale: ScaleContinuousNumeric<number, number>;
+  private scaleMode: ScaleMode;
   private visibleLevels: number = 1;
+  private ordering: LevelOrdering = DEFAULT_ORDERING;
+  // Indices into data in reveal order, filtered; the first visibleLevels of them are revealed
+  private sequence: number[] = [];
+  private sequencePosition: Map<number, number> = new Map();
+  private orderMenu!: OrderMenu;
   private selectedLevelIndex: number = 0;
   private margin = { top: 20, right: 400, bottom: 145, left: 60 };
   private isMobile: boolean = false;
   private width!: number;
   private height!: number;
   private detailsPanel!: HTMLDivElement;
+  // The level the details panel was last rendered for
+  private detailsLevel: LevelData | null = null;
   private forwardButton!: HTMLButtonElement;
   private backButton!: HTMLButtonElement;
+  private scaleSelect!: HTMLSelectElement;
+  private compareButton!: HTMLButtonElement;
+  private compareView!: CompareView;
+  private publisherView!: PublisherView;
+  private annotationMenu!: AnnotationMenu;
+  private listAnnotations: Annotation[];
+  private userAnnotations: Annotation[];
+  private storageKey: string | null;
+  private annotationGroup: any;
+  private progress: ProgressMap;
+  private progressMenu!: ProgressMenu;
+  // Pinned levels are keyed by name so the set survives Forward/Back changing the visible slice
+  private pinnedNames: Set<string> = new Set();
+  private tiers: TierDefinition[];
+  // Tiers switched off in the legend; their bars are left out of the chart
+  private hiddenTiers: Set<string> = new Set();
+  private bandsGroup: any;
+  private plotGroup: any;
+  private clipRect: any;
+  private overviewGroup: any;
+  private brushGroup: any;
+  // Set when bars are drawn on canvas instead of as SVG rects
+  private barLayer: CanvasBarLayer | null = null;
+  private overviewLayer: CanvasBarLayer | null = null;
+  private hoveredName: string | null = null;
+  private themeObserver: MutationObserver | null = null;
+  private zoom!: ZoomBehavior<SVGSVGElement, unknown>;
+  private brush!: BrushBehavior<unknown>;
+  private zoomTransform: ZoomTransform = d3.zoomIdentity;
+  // Set while the zoom and the overview brush are synced programmatically, so neither reacts to the other
+  private syncingZoom: boolean = false;
+  private tierLegend!: HTMLDivElement;
+  private liveRegion!: HTMLDivElement;
+  private dataTable!: HTMLTableElement;
+  // The revealed levels left to right and their unzoomed bar centres, refreshed by update() so
+  // pointer moves don't rebuild the visible list
+  private visibleData: LevelData[] = [];
+  private visibleCenters: number[] = [];
+  // The level each data table row was last filled from
+  private tableRowLevel = d3.local<LevelData>();
   private isResizing: boolean = false;
+  private animation: AnimationSettings | false;
+  // When the running transition will finish, so rapid updates can chain into it
+  private transitionEnd: number = 0;
   private isSelecting: boolean = false;
   private longPressTimer: number | null = null;
   private selectionLine: any | null = null;
+  private onViewStateChange?: (state: ViewState, reason: ViewStateChangeReason) => void;
+  private navContainer!: HTMLDivElement;
+  private resizeObserver: ResizeObserver | null = null;
+  private resizeTimeout: number | null = null;
+  private lastContainerSize = { width: 0, height: 0 };
+  private keyboardTarget: Window | HTMLElement;
+  // Aborted by destroy() to remove every listener added outside the chart's own elements
+  private listeners = new AbortController();
 
   constructor(config: VisualizationConfig) {
-    this.data = config.data;
+    this.data = sanitizeCommentary(config.data);
+    this.indexLevels();
+    this.updateSequence();
     this.container = config.container;
+    this.container.classList.add('gd-chart');
+    this.keyboardTarget = config.globalKeyboard === false ? this.container : window;
+    this.scaleMode = config.scaleMode ?? 'linear';
+    this.tiers = sortTiers(config.tiers ?? DEFAULT_TIERS);
+    this.animation = config.animation ?? {};
+    this.onViewStateChange = config.onViewStateChange;
+    this.listAnnotations = config.annotations ?? [];
+    this.storageKey = config.storageKey ?? null;
+    this.userAnnotations = this.storageKey !== null ? readAnnotations(this.storageKey) : [];
+    this.progress = this.storageKey !== null ? readProgress(this.storageKey) : new Map();
+    if (config.initialState) {
+      this.applyViewState(config.initialState);
+    }
 
     // Check if mobile
     this.updateMobileState();
@@ -41,18 +233,22 @@ export class GDVisualization {
     // Calculate dimensions (after panel is created so we can measure it if needed)
     this.updateDimensions();
 
-    // Update container position for mobile layout
-    this.updateContainerPosition();
-
     // Create SVG
     this.svg = d3.select(this.container)
       .append('svg')
       .attr('width', this.width + this.margin.left + this.margin.right)
-      .attr('height', this.height + this.margin.top + this.margin.bottom);
+      .attr('height', this.height + this.margin.top + this.margin.bottom)
+      .attr('role', 'group')
+      .attr('aria-label', 'Level difficulty chart');
 
     this.chartGroup = this.svg.append('g')
       .attr('transform', `translate(${this.margin.left},${this.margin.top})`) as any;
 
+    // Background bands marking tier boundaries, drawn behind everything else
+    this.bandsGroup = this.chartGroup.append('g')
+      .attr('class', 'tier-bands')
+      .style('pointer-events', 'none');
+
     // Add a selection line (hidden by default)
     this.selectionLine = this.chartGroup.append('line')
       .attr('class', 'selection-line')
@@ -65,8 +261,36 @@ export class GDVisualization {
       .style('pointer-events', 'none')
       .style('display', 'none');
 
+    // Bars, click areas and x-axis labels are clipped to the plot area so they can be zoomed
+    const clipId = `gd-chart-clip-${++chartCount}`;
+    this.clipRect = this.svg.append('defs')
+      .append('clipPath')
+      .attr('id', clipId)
+      .append('rect');
+    this.plotGroup = this.chartGroup.append('g')
+      .attr('class', 'plot')
+      .attr('clip-path', `url(#${clipId})`);
+
+    // Overview strip under the chart showing every revealed level, with a brush for the zoomed range
+    this.overviewGroup = this.chartGroup.append('g')
+      .attr('class', 'overview')
+      .attr('aria-hidden', 'true');
+    this.overviewGroup.append('rect').attr('class', 'overview-background');
+    this.overviewGroup.append('g').attr('class', 'overview-bars');
+    this.brushGroup = this.overviewGroup.append('g').attr('class', 'overview-brush');
+
+    if (config.renderer === 'canvas') {
+      this.createCanvasLayers();
+    }
+
+    // Reference lines, markers and callouts, drawn over the bars inside the zoomed plot area
+    this.annotationGroup = this.plotGroup.append('g')
+      .attr('class', 'annotations')
+      .style('pointer-events', 'none');
+
     // Setup touch / mouse handlers for hold-and-swipe selection
     this.setupTouchHandlers();
+    this.setupZoom();
 
     // Initialize scales
     this.xScale = d3.scaleBand<string>()
@@ -74,147 +298,286 @@ export class GDVisualization {
       .range([0, this.width])
       .padding(0.2);
 
-    const maxDifficulty = d3.max(this.data, (d: LevelData) => d.difficulty) || 1;
-    this.yScale = d3.scaleLinear()
-      .domain([0, maxDifficulty])
-      .range([this.height, 0]);
+    this.yScale = createDifficultyScale(this.scaleMode, this.data.map(d => d.difficulty), [this.height, 0]);
 
     // Create navigation buttons
     this.createNavigationButtons();
+    this.createTierLegend();
+
+    // Screen-reader support: live announcements and a hidden table mirroring the chart
+    this.createAccessibilityElements();
+    this.setupKeyboardHandlers();
 
     // Initial render
     this.update();
 
-    // Handle window resize
-    let resizeTimeout: number | null = null;
-    window.addEventListener('resize', () => {
-      this.updateMobileState();
-      this.updateDimensions();
-      this.updateDetailsPanelPosition();
-      this.updateContainerPosition();
-      this.updateNavigationButtonsPosition();
-      this.svg
-        .attr('width', this.width + this.margin.left + this.margin.right)
-        .attr('height', this.height + this.margin.top + this.margin.bottom);
-      this.xScale.range([0, this.width]);
-      this.yScale.range([this.height, 0]);
-
-      // Set resizing flag and update immediately (no transitions)
-      this.isResizing = true;
-      this.update();
+    // Follow the container's size, whether the window or the host page's layout changed it
+    this.lastContainerSize = this.containerSize();
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.handleResize());
+      this.resizeObserver.observe(this.container);
+    } else {
+      window.addEventListener('resize', this.handleResize, { signal: this.listeners.signal });
+    }
+  }
 
-      // Clear any existing timeout
-      if (resizeTimeout !== null) {
-        clearTimeout(resizeTimeout);
-      }
+  private handleResize = (): void => {
+    const size = this.containerSize();
+    if (size.width === this.lastContainerSize.width && size.height === this.lastContainerSize.height) return;
+    this.lastContainerSize = size;
 
-      // After resize stops, allow transitions again
-      resizeTimeout = window.setTimeout(() => {
-        this.isResizing = false;
-      }, 150);
-    });
+    this.updateMobileState();
+    this.updateDimensions();
+    this.updateDetailsPanelPosition();
+    this.updateNavigationButtonsPosition();
+    this.updateTierLegendPosition();
+    this.svg
+      .attr('width', this.width + this.margin.left + this.margin.right)
+      .attr('height', this.height + this.margin.top + this.margin.bottom);
+    this.xScale.range([0, this.width]);
+    this.yScale.range([this.height, 0]);
+
+    // Set resizing flag and update immediately (no transitions)
+    this.isResizing = true;
+    this.update();
+
+    // Clear any existing timeout
+    if (this.resizeTimeout !== null) {
+      clearTimeout(this.resizeTimeout);
+    }
+
+    // After resize stops, allow transitions again
+    this.resizeTimeout = window.setTimeout(() => {
+      this.isResizing = false;
+      this.resizeTimeout = null;
+    }, 150);
+  };
+
+  // Containers that have not been laid out yet fall back to the window size
+  private containerSize(): { width: number; height: number } {
+    return {
+      width: this.container.clientWidth || window.innerWidth,
+      height: this.container.clientHeight || window.innerHeight
+    };
   }
 
   private updateMobileState(): void {
-    this.isMobile = window.innerWidth <= 768;
+    this.isMobile = this.containerSize().width <= 768;
   }
 
   private updateDimensions(): void {
+    const size = this.containerSize();
     if (this.isMobile) {
-      // On mobile: full width, height accounts for commentary panel at bottom (55vh) and buttons
-      const commentaryHeight = window.innerHeight * 0.55; // 55vh (use freed-up label space)
+      // On mobile: full width, height accounts for commentary panel at bottom (55%) and buttons
+      const commentaryHeight = size.height * 0.55; // 55% (use freed-up label space)
       const buttonHeight = 60; // Space for buttons
-      const availableHeight = window.innerHeight - commentaryHeight - buttonHeight;
+      const availableHeight = size.height - commentaryHeight - buttonHeight;
 
       // Adjust margins for mobile
       this.margin.right = 20;
-      this.margin.left = 20;
-      // Reduce bottom margin because x-axis labels are hidden on mobile
+      // Leave room for the y-axis tick labels
+      this.margin.left = 44;
+      // Reduce bottom margin because x-axis labels are hidden on mobile; it still fits the overview
       this.margin.bottom = 60;
       this.margin.top = 20;
 
-      this.width = window.innerWidth - this.margin.left - this.margin.right;
+      this.width = size.width - this.margin.left - this.margin.right;
       this.height = Math.max(200, availableHeight - this.margin.top - this.margin.bottom);
     } else {
       // Desktop: reserve space on right for commentary
       this.margin.right = 400;
       this.margin.left = 60;
-      this.margin.bottom = 145;
+      // Rotated x-axis labels plus the overview strip
+      this.margin.bottom = 145 + OVERVIEW_HEIGHT + OVERVIEW_GAP;
       this.margin.top = 20;
 
-      this.width = window.innerWidth - this.margin.left - this.margin.right;
-      this.height = window.innerHeight - this.margin.top - this.margin.bottom;
+      this.width = size.width - this.margin.left - this.margin.right;
+      this.height = size.height - this.margin.top - this.margin.bottom;
     }
   }
 
   private updateDetailsPanelPosition(): void {
     if (this.isMobile) {
-      // Mobile: position at bottom, full width, 50vh height, with space below for buttons
+      // Mobile: position at bottom, full width, 55% height, with space below for buttons
       this.detailsPanel.style.cssText = `
-        position: fixed;
+        position: absolute;
         bottom: 70px;
         left: 0;
         right: 0;
-        width: 100vw;
-        height: 55vh;
+        width: 100%;
+        height: 55%;
         overflow-y: auto;
         background: var(--panel-bg);
         border: none;
         border-top: 2px solid var(--panel-border);
         border-radius: 0;
         padding: 20px;
-        box-shadow: 0 -2px 8px rgba(0,0,0,0.6);
+        box-shadow: var(--shadow-up);
         z-index: 1000;
       `;
     } else {
       // Desktop: position on right, shorter to leave room for buttons below
       this.detailsPanel.style.cssText = `
-        position: fixed;
+        position: absolute;
         right: 20px;
         top: 20px;
         width: 360px;
-        height: calc(100vh - 100px);
+        height: calc(100% - 100px);
         overflow-y: auto;
         background: var(--panel-bg);
         border: 2px solid var(--panel-border);
         border-radius: 8px;
         padding: 20px;
-        box-shadow: 0 6px 18px rgba(0,0,0,0.6);
+        box-shadow: var(--shadow);
         z-index: 1000;
       `;
     }
   }
 
-  private updateContainerPosition(): void {
-    if (this.isMobile) {
-      // On mobile, position container at top (commentary is at bottom, 50vh + 60px for buttons)
-      this.container.style.cssText = `
-        position: fixed;
-        top: 0;
-        left: 0;
-        width: 100vw;
-        height: calc(100vh - 55vh - 60px);
-      `;
-    } else {
-      // Desktop: normal positioning
-      this.container.style.cssText = `
-        position: relative;
-        width: 100vw;
-        height: 100vh;
-      `;
-    }
-  }
-
   private createDetailsPanel(): void {
     this.detailsPanel = document.createElement('div');
     this.detailsPanel.className = 'details-panel';
+    this.detailsPanel.setAttribute('role', 'region');
+    this.detailsPanel.setAttribute('aria-label', 'Level details');
     this.updateDetailsPanelPosition();
-    document.body.appendChild(this.detailsPanel);
+    this.container.appendChild(this.detailsPanel);
+  }
+
+  private createAccessibilityElements(): void {
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.className = 'sr-only';
+    this.liveRegion.setAttribute('aria-live', 'polite');
+    this.liveRegion.setAttribute('aria-atomic', 'true');
+    this.container.appendChild(this.liveRegion);
+
+    this.dataTable = document.createElement('table');
+    this.dataTable.className = 'sr-only';
+    this.dataTable.innerHTML = `
+      <caption>Revealed levels in chart order</caption>
+      <thead><tr><th scope="col">Level</th><th scope="col">Publisher</th><th scope="col">Difficulty</th></tr></thead>
+      <tbody></tbody>
+    `;
+    this.container.appendChild(this.dataTable);
+  }
+
+  // Keyboard control: Left/Right move the selection, PageDown/PageUp reveal or hide a level,
+  // Home/End select the first or last revealed level, +/-/0 zoom in, out or back to everything
+  private setupKeyboardHandlers(): void {
+    this.keyboardTarget.addEventListener('keydown', this.handleKeydown as EventListener, { signal: this.listeners.signal });
+  }
+
+  private handleKeydown = (ev: KeyboardEvent): void => {
+    if (ev.defaultPrevented || ev.ctrlKey || ev.metaKey || ev.altKey) return;
+    const target = ev.target as HTMLElement | null;
+    if (target && (target.isContentEditable || /^(INPUT|SELECT|TEXTAREA)$/.test(target.tagName))) return;
+
+    switch (ev.key) {
+      case 'ArrowRight':
+        this.moveSelectionTo(this.selectedPosition() + 1);
+        break;
+      case 'ArrowLeft':
+        this.moveSelectionTo(this.selectedPosition() - 1);
+        break;
+      case 'Home':
+        this.moveSelectionTo(0);
+        break;
+      case 'End':
+        this.moveSelectionTo(Infinity);
+        break;
+      case 'PageDown':
+        this.goForward();
+        break;
+      case 'PageUp':
+        this.goBack();
+        break;
+      case 'p':
+      case 'P':
+        this.togglePin(this.selectedLevelIndex);
+        break;
+      case 'b':
+      case 'B':
+        this.setProgress(this.selectedLevelIndex, this.getProgress(this.selectedLevelIndex) === 'beaten' ? null : 'beaten');
+        break;
+      case '+':
+      case '=':
+        this.zoomBy(2);
+        break;
+      case '-':
+        this.zoomBy(0.5);
+        break;
+      case '0':
+        this.resetZoom();
+        break;
+      default:
+        return;
+    }
+    ev.preventDefault();
+  };
+
+  // Position of the selected level along the x-axis, or -1 if its bar isn't shown
+  private selectedPosition(): number {
+    return this.getVisibleData().findIndex(d => this.levelIndex(d) === this.selectedLevelIndex);
+  }
+
+  // Selects the bar at this position along the x-axis, clamped to the bars shown
+  private moveSelectionTo(position: number): void {
+    const shown = this.getVisibleData();
+    if (shown.length === 0) return;
+    const index = this.levelIndex(shown[Math.max(0, Math.min(shown.length - 1, position))]);
+    if (index === this.selectedLevelIndex) return;
+    this.selectLevel(index);
+    // Keep focus on the selected bar when navigating from within the chart
+    const svgEl = this.svg.node() as SVGSVGElement;
+    if (svgEl.contains(document.activeElement)) {
+      this.focusSelectedBar();
+    }
+  }
+
+  private focusSelectedBar(): void {
+    this.chartGroup.selectAll('.click-area')
+      .filter((d: LevelData) => this.levelIndex(d) === this.selectedLevelIndex)
+      .each(function (this: SVGRectElement) { this.focus(); });
+  }
+
+  // Roving tabindex: only the selected bar is in the tab order, arrows move between bars
+  private updateBarFocusOrder(): void {
+    this.chartGroup.selectAll('.click-area')
+      .attr('tabindex', (d: LevelData) => this.levelIndex(d) === this.selectedLevelIndex ? 0 : -1)
+      .attr('aria-current', (d: LevelData) => this.levelIndex(d) === this.selectedLevelIndex ? 'true' : null);
+  }
+
+  // Rows are keyed by level name, so revealing a level adds one row; the cells of a kept row are
+  // only rewritten when its level changed (setData())
+  private updateDataTable(visibleData: LevelData[]): void {
+    const rowLevel = this.tableRowLevel;
+    d3.select(this.dataTable).select('tbody')
+      .selectAll<HTMLTableRowElement, LevelData>('tr')
+      .data(visibleData, d => d.name)
+      .join(enter => enter.append('tr').call(row => {
+        row.append('th').attr('scope', 'row');
+        row.append('td');
+        row.append('td');
+      }))
+      .filter(function (d) {
+        return rowLevel.get(this) !== d;
+      })
+      .each(function (d) {
+        rowLevel.set(this, d);
+        const [name, publisher, difficulty] = Array.from(this.cells);
+        name.textContent = d.name;
+        publisher.textContent = d.publisher;
+        difficulty.textContent = formatDifficulty(d.difficulty);
+      });
+  }
+
+  private announce(message: string): void {
+    if (this.liveRegion.textContent === message) return;
+    this.liveRegion.textContent = message;
   }
 
   private createNavigationButtons(): void {
-    const navContainer = document.createElement('div');
-    navContainer.className = 'nav-container';
+    this.navContainer = document.createElement('div');
+    this.navContainer.className = 'nav-container';
 
     this.backButton = document.createElement('button');
     this.backButton.textContent = '← Back';
@@ -245,17 +608,87 @@ export class GDVisualization {
     `;
     this.forwardButton.addEventListener('click', () => this.goForward());
 
-    navContainer.appendChild(this.backButton);
-    navContainer.appendChild(this.forwardButton);
-    document.body.appendChild(navContainer);
+    // Y-scale mode selector; the choice persists across Forward/Back since update() reads this.scaleMode
+    this.scaleSelect = document.createElement('select');
+    this.scaleSelect.className = 'nav-select';
+    this.scaleSelect.setAttribute('aria-label', 'Difficulty scale');
+    SCALE_MODES.forEach(({ mode, label }) => {
+      const option = document.createElement('option');
+      option.value = mode;
+      option.textContent = label;
+      this.scaleSelect.appendChild(option);
+    });
+    this.scaleSelect.value = this.scaleMode;
+    this.scaleSelect.addEventListener('change', () => {
+      this.setScaleMode(this.scaleSelect.value as ScaleMode);
+    });
+
+    // Compare mode: opens a side-by-side view of the pinned levels
+    this.compareButton = document.createElement('button');
+    this.compareButton.className = 'nav-button compare-button';
+    this.compareButton.style.cssText = `
+      padding: 10px 20px;
+      font-size: 16px;
+      cursor: pointer;
+    `;
+    this.compareButton.addEventListener('click', () => this.compareView.open(this.getPinnedLevels()));
+    this.compareView = new CompareView({
+      container: this.container,
+      onUnpin: level => this.togglePin(this.levelIndex(level)),
+      onSelect: level => this.goToLevel(this.levelIndex(level))
+    });
+    this.updateCompareButton();
+
+    // Publisher overview: clicking a publisher filters the chart to their levels
+    const publishersButton = document.createElement('button');
+    publishersButton.className = 'nav-button publishers-button';
+    publishersButton.textContent = 'Publishers';
+    publishersButton.style.cssText = `
+      padding: 10px 20px;
+      font-size: 16px;
+      cursor: pointer;
+    `;
+    publishersButton.addEventListener('click', () => this.publisherView.open(this.data, this.ordering.filter.publisher));
+    this.publisherView = new PublisherView({
+      container: this.container,
+      onSelect: publisher => this.filterByPublisher(publisher)
+    });
+
+    this.orderMenu = new OrderMenu({
+      ordering: this.ordering,
+      publishers: publishersOf(this.data),
+      onChange: ordering => this.setOrdering(ordering)
+    });
+
+    this.annotationMenu = new AnnotationMenu({
+      getSelectedLevel: () => this.sequence.length > 0 ? this.data[this.selectedLevelIndex] : undefined,
+      onAdd: annotation => this.addAnnotation(annotation),
+      onRemove: index => this.removeAnnotation(index)
+    });
+    this.annotationMenu.setAnnotations(this.userAnnotations);
+
+    this.progressMenu = new ProgressMenu({
+      getProgress: () => this.progress,
+      onImport: progress => this.setProgressMap(new Map([...this.progress, ...progress]))
+    });
+    this.progressMenu.setSummary(this.getProgressSummary());
+
+    this.navContainer.appendChild(this.scaleSelect);
+    this.navContainer.appendChild(this.orderMenu.element);
+    this.navContainer.appendChild(this.annotationMenu.element);
+    this.navContainer.appendChild(this.progressMenu.element);
+    this.navContainer.appendChild(publishersButton);
+    this.navContainer.appendChild(this.compareButton);
+    this.navContainer.appendChild(this.backButton);
+    this.navContainer.appendChild(this.forwardButton);
+    this.container.appendChild(this.navContainer);
 
     // Set initial position after adding to DOM
     this.updateNavigationButtonsPosition();
   }
 
   private updateNavigationButtonsPosition(): void {
-    const navContainer = document.querySelector('.nav-container') as HTMLElement;
-    if (!navContainer) return;
+    const navContainer = this.navContainer;
 
     // Preserve disabled state
     const backDisabled = this.backButton.disabled;
@@ -264,7 +697,7 @@ export class GDVisualization {
     if (this.isMobile) {
       // Mobile: position at very bottom, centered
       navContainer.style.cssText = `
-        position: fixed;
+        position: absolute;
         bottom: 10px;
         left: 50%;
         transform: translateX(-50%);
@@ -300,7 +733,7 @@ export class GDVisualization {
     } else {
       // Desktop: position at bottom right, below commentary container
       navContainer.style.cssText = `
-        position: fixed;
+        position: absolute;
         bottom: 20px;
         right: 20px;
         display: flex;
@@ -331,27 +764,453 @@ export class GDVisualization {
     }
   }
 
-  private goForward(): void {
-    if (this.visibleLevels < this.data.length) {
+  public setScaleMode(mode: ScaleMode): void {
+    if (mode === this.scaleMode) return;
+    this.scaleMode = mode;
+    if (this.scaleSelect) this.scaleSelect.value = mode;
+    this.update();
+    this.notifyViewStateChange('scale');
+  }
+
+  public getViewState(): ViewState {
+    return {
+      visibleLevels: this.visibleLevels,
+      selectedLevelIndex: this.selectedLevelIndex,
+      scaleMode: this.scaleMode,
+      ordering: this.ordering
+    };
+  }
+
+  /** Restores a view (e.g. from the URL on back/forward) without reporting it as a change. */
+  public setViewState(state: Partial<ViewState>): void {
+    this.applyViewState(state);
+    if (this.scaleSelect) this.scaleSelect.value = this.scaleMode;
+    this.orderMenu.setOrdering(this.ordering);
+    this.update();
+  }
+
+  // Clamp and store a (possibly partial) view state; the selection must be a revealed level
+  private applyViewState(state: Partial<ViewState>): void {
+    if (state.ordering !== undefined) {
+      this.ordering = state.ordering;
+      this.updateSequence();
+    }
+    if (state.visibleLevels !== undefined) {
+      this.visibleLevels = this.clampReveal(state.visibleLevels);
+    }
+    const selected = state.selectedLevelIndex ?? this.lastRevealedIndex();
+    this.selectedLevelIndex = this.isRevealed(selected) ? selected : this.lastRevealedIndex();
+    if (state.scaleMode !== undefined) {
+      this.scaleMode = state.scaleMode;
+    }
+  }
+
+  private updateSequence(): void {
+    this.sequence = revealSequence(this.data, this.ordering);
+    this.sequencePosition = new Map(this.sequence.map((index, position) => [index, position]));
+  }
+
+  // At least one level is revealed, unless the filters leave none
+  private clampReveal(count: number): number {
+    return Math.min(this.sequence.length, Math.max(1, Math.floor(count)));
+  }
+
+  private isRevealed(index: number): boolean {
+    const position = this.sequencePosition.get(index);
+    return position !== undefined && position < this.visibleLevels;
+  }
+
+  // The newest revealed level, which Forward and Back select; the selection stays put if nothing is revealed
+  private lastRevealedIndex(): number {
+    return this.sequence[this.visibleLevels - 1] ?? this.selectedLevelIndex;
+  }
+
+  /**
+   * Changes the reveal order, x-axis sort or filters. The same number of levels stays revealed,
+   * now counted along the new sequence; the selection is kept if it is still revealed.
+   */
+  public setOrdering(ordering: LevelOrdering): void {
+    const selected = this.selectedLevelIndex;
+    this.ordering = ordering;
+    this.updateSequence();
+    this.visibleLevels = this.clampReveal(this.visibleLevels);
+    this.selectedLevelIndex = this.isRevealed(selected) ? selected : this.lastRevealedIndex();
+    this.orderMenu.setOrdering(ordering);
+    this.update();
+    this.notifyViewStateChange('order');
+  }
+
+  /** Shows only this publisher's levels (null for everyone's), keeping the other filters. */
+  public filterByPublisher(publisher: string | null): void {
+    this.setOrdering({ ...this.ordering, filter: { ...this.ordering.filter, publisher } });
+  }
+
+  /** The levels Forward steps through, in reveal order, after filtering. */
+  public getRevealSequence(): LevelData[] {
+    return this.sequence.map(index => this.data[index]);
+  }
+
+  /** The list's annotations followed by the ones the viewer added. */
+  public getAnnotations(): Annotation[] {
+    return [...this.listAnnotations, ...this.userAnnotations];
+  }
+
+  /** Adds one of the viewer's own annotations and saves it with the others. */
+  public addAnnotation(annotation: Annotation): void {
+    this.setUserAnnotations([...this.userAnnotations, annotation]);
+    this.announce(`Added ${annotation.label}.`);
+  }
+
+  /** Removes the viewer's annotation at this position (list annotations can't be removed). */
+  public removeAnnotation(index: number): void {
+    const annotation = this.userAnnotations[index];
+    if (!annotation) return;
+    this.setUserAnnotations(this.userAnnotations.filter((_, i) => i !== index));
+    this.announce(`Removed ${annotation.label}.`);
+  }
+
+  private setUserAnnotations(annotations: Annotation[]): void {
+    this.userAnnotations = annotations;
+    if (this.storageKey !== null) writeAnnotations(this.storageKey, annotations);
+    this.annotationMenu.setAnnotations(annotations);
+    this.renderAnnotations(this.getVisibleData(), null);
+  }
+
+  /** Selects the level with this name, revealing it if needed; returns false if there is none. */
+  public goTo(name: string): boolean {
+    const index = this.indexByName.get(name);
+    if (index === undefined) return false;
+    this.goToLevel(index);
+    return true;
+  }
+
+  /** Reveals exactly `count` levels (clamped to the reveal sequence) and selects the last one. */
+  public setVisibleCount(count: number): void {
+    const visibleLevels = this.clampReveal(count);
+    if (visibleLevels === this.visibleLevels) return;
+    this.visibleLevels = visibleLevels;
+    this.selectedLevelIndex = this.lastRevealedIndex();
+    this.update();
+    this.notifyViewStateChange('reveal');
+  }
+
+  /**
+   * Replaces the level list in place. The revealed range and the selection stay on the levels
+   * they pointed at where those still exist; bars are joined by name, so unchanged levels
+   * stay put and only added or removed ones animate. `annotations` replaces the list's own
+   * annotations; the viewer's are kept.
+   */
+  public setData(levels: LevelData[], annotations: Annotation[] = this.listAnnotations): void {
+    const lastRevealed = this.data[this.sequence[this.visibleLevels - 1]]?.name;
+    const selected = this.data[this.selectedLevelIndex]?.name;
+    this.data = sanitizeCommentary(levels);
+    this.listAnnotations = annotations;
+    this.indexLevels();
+    // A publisher that is gone from the list would filter out everything
+    const publishers = publishersOf(levels);
+    if (this.ordering.filter.publisher !== null && !publishers.includes(this.ordering.filter.publisher)) {
+      this.ordering = { ...this.ordering, filter: { ...this.ordering.filter, publisher: null } };
+    }
+    this.updateSequence();
+    this.orderMenu.setPublishers(publishers);
+    this.orderMenu.setOrdering(this.ordering);
+
+    const revealPosition = this.sequencePosition.get(this.indexByName.get(lastRevealed ?? '') ?? -1);
+    this.visibleLevels = this.clampReveal(revealPosition !== undefined ? revealPosition + 1 : this.visibleLevels);
+    const selectedIndex = this.indexByName.get(selected ?? '') ?? -1;
+    this.selectedLevelIndex = this.isRevealed(selectedIndex) ? selectedIndex : this.lastRevealedIndex();
+    this.pinnedNames = new Set(levels.filter(d => this.pinnedNames.has(d.name)).map(d => d.name));
+
+    this.updateTierLegend();
+    this.updateCompareButton();
+    this.progressMenu.setSummary(this.getProgressSummary());
+    if (this.compareView.isOpen()) this.compareView.render(this.getPinnedLevels());
+    if (this.publisherView.isOpen()) this.publisherView.render(levels, this.ordering.filter.publisher);
+    this.update();
+    this.notifyViewStateChange('data');
+  }
+
+  /** Removes the chart, its panels and its listeners; the instance can't be used afterwards. */
+  public destroy(): void {
+    this.listeners.abort();
+    this.resizeObserver?.disconnect();
+    this.themeObserver?.disconnect();
+    if (this.resizeTimeout !== null) window.clearTimeout(this.resizeTimeout);
+    if (this.longPressTimer !== null) window.clearTimeout(this.longPressTimer);
+
+    this.chartGroup.selectAll('*').interrupt();
+    this.svg.remove();
+    [this.detailsPanel, this.navContainer, this.tierLegend, this.liveRegion, this.dataTable].forEach(element => element.remove());
+    this.compareView.destroy();
+    this.publisherView.destroy();
+    this.container.classList.remove('gd-chart');
+  }
+
+  /**
+   * Reveals the chart up to the given level (if not already shown) and selects it. Filters that
+   * hide the level are cleared first.
+   */
+  public goToLevel(index: number): void {
+    if (index < 0 || index >= this.data.length) return;
+    const clearFilter = !matchesFilter(this.data[index], this.ordering.filter);
+    if (clearFilter) {
+      this.ordering = { ...this.ordering, filter: NO_FILTER };
+      this.updateSequence();
+      this.orderMenu.setOrdering(this.ordering);
+    }
+    const position = this.sequencePosition.get(index)!;
+    const revealed = position >= this.visibleLevels;
+    if (revealed) {
+      this.visibleLevels = position + 1;
+    }
+    this.selectedLevelIndex = index;
+    this.update();
+    // Clearing the filters changes the reveal sequence, which listeners such as the tour count
+    this.notifyViewStateChange(clearFilter ? 'order' : revealed ? 'reveal' : 'select');
+  }
+
+  private indexLevels(): void {
+    this.indexByName = new Map(this.data.map((d, i) => [d.name, i]));
+  }
+
+  // Names are unique (see validateLevelData), so this stands in for data.indexOf() in loops
+  private levelIndex(level: LevelData): number {
+    return this.indexByName.get(level.name) ?? -1;
+  }
+
+  private notifyViewStateChange(reason: ViewStateChangeReason): void {
+    this.onViewStateChange?.(this.getViewState(), reason);
+  }
+
+  public isPinned(index: number): boolean {
+    return this.pinnedNames.has(this.data[index]?.name);
+  }
+
+  /** Pinned levels in data order, including any hidden by going Back. */
+  public getPinnedLevels(): LevelData[] {
+    return this.data.filter(d => this.pinnedNames.has(d.name));
+  }
+
+  public togglePin(index: number): void {
+    const level = this.data[index];
+    if (!level) return;
+    if (this.pinnedNames.has(level.name)) {
+      this.pinnedNames.delete(level.name);
+    } else {
+      this.pinnedNames.add(level.name);
+    }
+    this.updateBarOutlines();
+    this.updateCompareButton();
+    if (index === this.selectedLevelIndex) {
+      this.updatePinButton();
+    }
+    if (this.compareView.isOpen()) {
+      this.compareView.render(this.getPinnedLevels());
+    }
+    this.announce(`${level.name} ${this.pinnedNames.has(level.name) ? 'pinned' : 'unpinned'} for comparison.`);
+  }
+
+  public getProgress(index: number): LevelProgress | null {
+    return this.progress.get(this.data[index]?.name) ?? null;
+  }
+
+  /** Marks a level as beaten or in progress, or clears it with null, and saves the change. */
+  public setProgress(index: number, state: LevelProgress | null): void {
+    const level = this.data[index];
+    if (!level) return;
+    const progress = new Map(this.progress);
+    if (state) {
+      progress.set(level.name, state);
+    } else {
+      progress.delete(level.name);
+    }
+    this.setProgressMap(progress);
+    const label = PROGRESS_STATES.find(option => option.value === state)?.label.toLowerCase();
+    this.announce(label ? `${level.name} marked as ${label}.` : `${level.name} no longer marked.`);
+  }
+
+  /** Beaten and in-progress counts for the whole list, and the next step up from the hardest completion. */
+  public getProgressSummary(): ProgressSummary {
+    return summarizeProgress(this.data, this.progress);
+  }
+
+  private setProgressMap(progress: ProgressMap): void {
+    this.progress = progress;
+    if (this.storageKey !== null) writeProgress(this.storageKey, progress);
+    this.updateProgress();
+  }
+
+  private updateProgress(): void {
+    this.progressMenu.setSummary(this.getProgressSummary());
+    this.updateProgressButtons();
+    this.updateBarOutlines();
+    this.renderAnnotations(this.getVisibleData(), null);
+  }
+
+  // Names of the levels in one progress state; the map may also hold levels from other lists
+  private namesWithProgress(state: LevelProgress): Set<string> {
+    return new Set(Array.from(this.progress).filter(([, value]) => value === state).map(([name]) => name));
+  }
+
+  // Progress outlines (solid for beaten, dashed while in progress) with pins drawn over them
+  private updateBarOutlines(): void {
+    if (this.barLayer) {
+      this.barLayer.setOutlines([
+        { keys: this.namesWithProgress('beaten'), color: 'var(--beaten)', width: 2 },
+        { keys: this.namesWithProgress('in-progress'), color: 'var(--beaten)', width: 2, dash: [4, 3] },
+        { keys: this.pinnedNames, color: 'var(--selection)', width: 3 }
+      ]);
+      return;
+    }
+    this.chartGroup.selectAll('.bar')
+      .classed('beaten', (d: LevelData) => this.progress.get(d.name) === 'beaten')
+      .classed('in-progress', (d: LevelData) => this.progress.get(d.name) === 'in-progress')
+      .classed('pinned', (d: LevelData) => this.pinnedNames.has(d.name));
+  }
+
+  private updateCompareButton(): void {
+    this.compareButton.textContent = `Compare (${this.pinnedNames.size})`;
+  }
+
+  private updatePinButton(): void {
+    const pinButton = this.detailsPanel.querySelector<HTMLButtonElement>('.pin-button');
+    if (!pinButton) return;
+    const pinned = this.isPinned(this.selectedLevelIndex);
+    pinButton.textContent = pinned ? '📌 Pinned' : '📌 Pin';
+    pinButton.setAttribute('aria-pressed', pinned ? 'true' : 'false');
+  }
+
+  private updateProgressButtons(): void {
+    const state = this.getProgress(this.selectedLevelIndex);
+    this.detailsPanel.querySelectorAll<HTMLButtonElement>('.progress-button').forEach(button => {
+      button.setAttribute('aria-pressed', button.dataset.progress === state ? 'true' : 'false');
+    });
+  }
+
+  private selectLevel(index: number): void {
+    this.selectedLevelIndex = index;
+    if (this.panToSelection()) this.renderZoom();
+    this.updateDetailsPanel(this.data[index]);
+    this.annotationMenu.refresh();
+    this.updateBarFocusOrder();
+    this.notifyViewStateChange('select');
+  }
+
+  public getScaleMode(): ScaleMode {
+    return this.scaleMode;
+  }
+
+  // Top of a bar in chart coordinates; values outside a log scale's domain collapse to the baseline
+  private barY(d: LevelData): number {
+    const y = this.yScale(d.difficulty);
+    return Number.isFinite(y) ? Math.min(y, this.height) : this.height;
+  }
+
+  public canGoForward(): boolean {
+    return this.visibleLevels < this.sequence.length;
+  }
+
+  /**
+   * The chart's SVG element with all transitions jumped to their end state,
+   * so a snapshot (e.g. an export) shows the current reveal and scale exactly.
+   */
+  public getSettledSvg(): SVGSVGElement {
+    this.chartGroup.selectAll('*').interrupt();
+    this.transitionEnd = 0;
+    this.isResizing = true;
+    this.update();
+    this.isResizing = false;
+    return this.svg.node() as SVGSVGElement;
+  }
+
+  /** Adds an extra control (e.g. an export menu) to the navigation bar, before the Back button. */
+  public addNavControl(element: HTMLElement): void {
+    this.backButton.parentElement?.insertBefore(element, this.backButton);
+  }
+
+  /** The embedded video player of the selected level, if it has been loaded. */
+  public getVideoFrame(): HTMLIFrameElement | null {
+    return this.detailsPanel.querySelector('iframe');
+  }
+
+  /**
+   * Swaps the selected level's video thumbnail for the real (autoplaying) player and returns it.
+   * Returns null when the level has no video.
+   */
+  public loadVideo(): HTMLIFrameElement | null {
+    const existing = this.getVideoFrame();
+    if (existing) return existing;
+    const container = this.detailsPanel.querySelector<HTMLElement>('.video-container');
+    const video = parseYouTubeUrl(this.data[this.selectedLevelIndex]?.youtubeUrl);
+    if (!container || !video) return null;
+    return this.embedVideo(container, video, true);
+  }
+
+  private embedVideo(container: HTMLElement, video: YouTubeVideo, autoplay: boolean): HTMLIFrameElement {
+    const iframe = document.createElement('iframe');
+    iframe.src = youTubeEmbedUrl(video, autoplay);
+    iframe.title = 'YouTube video player';
+    iframe.allow = 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share';
+    iframe.referrerPolicy = 'strict-origin-when-cross-origin';
+    iframe.allowFullscreen = true;
+    iframe.setAttribute('frameborder', '0');
+    container.replaceChildren(iframe);
+    return iframe;
+  }
+
+  // Click-to-load facade: only a thumbnail is fetched until the user asks for the video,
+  // so no YouTube player (or its cookies and scripts) loads on every selection change
+  private renderVideo(container: HTMLElement, level: LevelData): void {
+    const video = parseYouTubeUrl(level.youtubeUrl);
+    if (!video) {
+      const message = document.createElement('p');
+      message.className = 'no-video';
+      message.textContent = 'No video available for this level.';
+      container.replaceChildren(message);
+      return;
+    }
+
+    const facade = document.createElement('button');
+    facade.className = 'video-facade';
+    facade.setAttribute('aria-label', `Play video: ${level.name}`);
+    const thumbnail = document.createElement('img');
+    thumbnail.src = youTubeThumbnailUrl(video);
+    thumbnail.alt = '';
+    thumbnail.loading = 'lazy';
+    thumbnail.referrerPolicy = 'no-referrer';
+    const playIcon = document.createElement('span');
+    playIcon.className = 'video-facade-play';
+    playIcon.setAttribute('aria-hidden', 'true');
+    playIcon.textContent = '▶';
+    facade.appendChild(thumbnail);
+    facade.appendChild(playIcon);
+    facade.addEventListener('click', () => this.embedVideo(container, video, true));
+    container.replaceChildren(facade);
+  }
+
+  public goForward(): void {
+    if (this.canGoForward()) {
       this.visibleLevels++;
-      this.selectedLevelIndex = this.visibleLevels - 1;
+      this.selectedLevelIndex = this.lastRevealedIndex();
       this.update();
       this.updateNavigationButtons();
+      this.notifyViewStateChange('reveal');
     }
   }
 
-  private goBack(): void {
+  public goBack(): void {
     if (this.visibleLevels > 1) {
       this.visibleLevels--;
-      this.selectedLevelIndex = this.visibleLevels - 1;
+      this.selectedLevelIndex = this.lastRevealedIndex();
       this.update();
       this.updateNavigationButtons();
+      this.notifyViewStateChange('reveal');
     }
   }
 
   private updateNavigationButtons(): void {
     this.backButton.disabled = this.visibleLevels <= 1;
-    this.forwardButton.disabled = this.visibleLevels >= this.data.length;
+    this.forwardButton.disabled = !this.canGoForward();
 
     if (this.backButton.disabled) {
       (this.backButton as HTMLElement).style.opacity = '0.5';
@@ -376,20 +1235,334 @@ export class GDVisualization {
     return clientX - rect.left - this.margin.left;
   }
 
-  private xToNearestIndex(x: number): number {
-    const visibleData = this.data.slice(0, this.visibleLevels);
-    const bw = this.xScale.bandwidth();
-    let nearest = 0;
-    let minDist = Infinity;
-    visibleData.forEach((d: LevelData) => {
-      const start = (this.xScale(d.name) || 0) + bw / 2;
-      const dist = Math.abs(start - x);
-      if (dist < minDist) {
-        minDist = dist;
-        nearest = this.data.indexOf(d);
+  private clientYToChartY(clientY: number): number {
+    const svgEl = this.svg.node() as SVGSVGElement;
+    const rect = svgEl.getBoundingClientRect();
+    return clientY - rect.top - this.margin.top;
+  }
+
+  // Revealed levels that are not in a tier hidden through the legend, in x-axis order
+  private getVisibleData(): LevelData[] {
+    const revealed = this.sequence.slice(0, this.visibleLevels)
+      .map(index => this.data[index])
+      .filter(d => !this.hiddenTiers.has(tierFor(d, this.tiers)?.name ?? ''));
+    return sortLevels(revealed, this.ordering.sortBy);
+  }
+
+  private tierColor(d: LevelData): string {
+    return tierFor(d, this.tiers)?.color ?? 'var(--bar)';
+  }
+
+  private createTierLegend(): void {
+    this.tierLegend = document.createElement('div');
+    this.tierLegend.className = 'tier-legend';
+    this.tierLegend.setAttribute('role', 'group');
+    this.tierLegend.setAttribute('aria-label', 'Difficulty tiers');
+    this.container.appendChild(this.tierLegend);
+    this.updateTierLegend();
+  }
+
+  // Only tiers that occur in the data get a legend entry; clicking one hides or shows its bars
+  private updateTierLegend(): void {
+    const usedTiers = new Set(this.data.map(d => tierFor(d, this.tiers)?.name));
+    this.tierLegend.replaceChildren();
+    this.tiers.filter(tier => usedTiers.has(tier.name)).forEach(tier => {
+      const hidden = this.hiddenTiers.has(tier.name);
+      const item = document.createElement('button');
+      item.className = 'tier-legend-item';
+      item.setAttribute('aria-pressed', hidden ? 'false' : 'true');
+      item.title = `${hidden ? 'Show' : 'Hide'} ${tier.name} levels`;
+      const swatch = document.createElement('span');
+      swatch.className = 'tier-swatch';
+      swatch.style.background = tier.color;
+      item.appendChild(swatch);
+      item.appendChild(document.createTextNode(tier.name));
+      item.addEventListener('click', () => this.toggleTier(tier.name));
+      this.tierLegend.appendChild(item);
+    });
+    this.updateTierLegendPosition();
+  }
+
+  // Sits in the top-right corner of the plot area (the tour controls take the top left)
+  private updateTierLegendPosition(): void {
+    this.tierLegend.style.right = `${this.margin.right + 8}px`;
+    this.tierLegend.style.top = `${this.margin.top + 4}px`;
+  }
+
+  public toggleTier(name: string): void {
+    const shownBefore = this.getVisibleData();
+    if (this.hiddenTiers.has(name)) {
+      this.hiddenTiers.delete(name);
+    } else {
+      this.hiddenTiers.add(name);
+    }
+    this.updateTierLegend();
+    const moved = this.keepSelectionShown(shownBefore);
+    this.update();
+    if (moved) this.notifyViewStateChange('select');
+  }
+
+  // When the selected bar was just hidden, selects the nearest one still shown (the left one on a
+  // tie); returns whether the selection moved
+  private keepSelectionShown(shownBefore: LevelData[]): boolean {
+    const shown = new Set(this.getVisibleData());
+    const position = shownBefore.findIndex(d => this.levelIndex(d) === this.selectedLevelIndex);
+    if (position < 0 || shown.has(shownBefore[position])) return false;
+    for (let offset = 1; offset < shownBefore.length; offset++) {
+      const nearest = [shownBefore[position - offset], shownBefore[position + offset]].find(d => d && shown.has(d));
+      if (nearest) {
+        this.selectedLevelIndex = this.levelIndex(nearest);
+        return true;
       }
+    }
+    return false;
+  }
+
+  private updateTierBands(transition: Transition<any, unknown, any, unknown> | null): void {
+    const [domainMin, domainMax] = this.yScale.domain();
+    const bands = tierBounds(this.tiers)
+      .filter(({ min, max }) => max > domainMin && min < domainMax);
+    const bandY = (value: number) => {
+      const y = this.yScale(Math.min(Math.max(value, domainMin), domainMax));
+      return Number.isFinite(y) ? y : this.height;
+    };
+
+    const groups = this.bandsGroup.selectAll('.tier-band')
+      .data(bands, (d: any) => d.tier.name)
+      .join((enter: any) => {
+        const g = enter.append('g').attr('class', 'tier-band');
+        g.append('rect').attr('x', 0).attr('y', this.height).attr('height', 0);
+        g.append('text').attr('class', 'tier-band-label').attr('x', 4).attr('dy', '1.1em');
+        return g;
+      });
+
+    groups.select('rect')
+      .attr('width', this.width)
+      .style('fill', (d: any) => d.tier.color);
+    groups.select('text').text((d: any) => d.tier.name);
+
+    const rects = transition ? groups.select('rect').transition(transition) : groups.select('rect');
+    rects
+      .attr('y', (d: any) => bandY(d.max))
+      .attr('height', (d: any) => Math.max(0, bandY(d.min) - bandY(d.max)));
+    const labels = transition ? groups.select('text').transition(transition) : groups.select('text');
+    labels.attr('y', (d: any) => bandY(d.max));
+  }
+
+  // The mouse wheel (or trackpad pinch) zooms the x-axis around the pointer; horizontal swipes
+  // and Shift+wheel pan. Dragging is left to press-and-drag selection, the overview brush pans instead.
+  private setupZoom(): void {
+    this.zoom = d3.zoom<SVGSVGElement, unknown>()
+      .filter((event: WheelEvent) => event.type === 'wheel' && !event.shiftKey && Math.abs(event.deltaX) <= Math.abs(event.deltaY))
+      .on('zoom', (event: D3ZoomEvent<SVGSVGElement, unknown>) => {
+        this.zoomTransform = event.transform;
+        if (this.syncingZoom) return;
+        this.renderZoom();
+      });
+    this.svg.call(this.zoom);
+
+    (this.svg.node() as SVGSVGElement).addEventListener('wheel', (ev: WheelEvent) => {
+      if (!ev.shiftKey && Math.abs(ev.deltaX) <= Math.abs(ev.deltaY)) return;
+      ev.preventDefault();
+      const delta = ev.shiftKey ? ev.deltaY || ev.deltaX : ev.deltaX;
+      this.svg.call(this.zoom.translateBy, -delta / this.zoomTransform.k, 0);
+    }, { passive: false });
+
+    this.brush = d3.brushX()
+      .on('brush end', (event: D3BrushEvent<unknown>) => {
+        // Ignore moves made by syncBrush()
+        if (this.syncingZoom || !event.sourceEvent) return;
+        const [x0, x1] = (event.selection as [number, number] | null) ?? [0, this.width];
+        const k = this.width / Math.max(1, x1 - x0);
+        this.setZoomTransform(d3.zoomIdentity.scale(k).translate(-x0, 0));
+        this.renderZoom();
+      });
+  }
+
+  // Updates the zoom behaviour's transform without triggering a re-render
+  private setZoomTransform(transform: ZoomTransform): void {
+    this.syncingZoom = true;
+    this.svg.call(this.zoom.transform, transform);
+    this.syncingZoom = false;
+  }
+
+  // Fits the zoom limits to the plot size and number of levels, clamping the current window to them
+  private updateZoomExtent(levelCount: number): void {
+    const extent: [[number, number], [number, number]] = [[0, 0], [this.width, this.height]];
+    const maxZoom = Math.max(1, levelCount / MIN_ZOOMED_LEVELS);
+    this.zoom.extent(extent).translateExtent(extent).scaleExtent([1, maxZoom]);
+    const k = Math.min(this.zoomTransform.k, maxZoom);
+    this.setZoomTransform(this.zoom.constrain()(d3.zoomIdentity.translate(this.zoomTransform.x, 0).scale(k), extent, extent));
+  }
+
+  // Pans a zoomed chart just enough to bring the selected bar on screen; returns whether it moved
+  private panToSelection(): boolean {
+    const transform = this.zoomTransform;
+    const level = this.data[this.selectedLevelIndex];
+    const unzoomed = this.xScale.copy().range([0, this.width]);
+    const start = level ? unzoomed(level.name) : undefined;
+    if (transform.k === 1 || start === undefined) return false;
+
+    const left = transform.applyX(start);
+    const right = transform.applyX(start + unzoomed.bandwidth());
+    const dx = left < 0 ? -left : right > this.width ? this.width - right : 0;
+    if (dx === 0) return false;
+    this.setZoomTransform(d3.zoomIdentity.translate(transform.x + dx, 0).scale(transform.k));
+    return true;
+  }
+
+  // Re-renders the chart for a new zoom window; running reveal transitions jump to their end
+  private renderZoom(): void {
+    this.plotGroup.selectAll('*').interrupt();
+    this.isResizing = true;
+    this.renderChart(this.getVisibleData());
+    this.isResizing = false;
+    this.syncBrush();
+  }
+
+  // Shows the zoomed range on the overview; the brush is cleared when the whole chart is in view
+  private syncBrush(): void {
+    const transform = this.zoomTransform;
+    this.syncingZoom = true;
+    this.brushGroup.call(this.brush.move, transform.k === 1 ? null : [transform.invertX(0), transform.invertX(this.width)]);
+    this.syncingZoom = false;
+  }
+
+  /** Zooms in (factor > 1) or out around the selected level. */
+  public zoomBy(factor: number): void {
+    const level = this.data[this.selectedLevelIndex];
+    const x = level ? (this.xScale(level.name) ?? 0) + this.xScale.bandwidth() / 2 : this.width / 2;
+    this.svg.call(this.zoom.scaleBy, factor, [Math.max(0, Math.min(this.width, x)), 0]);
+  }
+
+  public resetZoom(): void {
+    this.svg.call(this.zoom.transform, d3.zoomIdentity);
+  }
+
+  private isOffscreen(name: string): boolean {
+    const x = this.xScale(name);
+    return x === undefined || x + this.xScale.bandwidth() < 0 || x > this.width;
+  }
+
+  private renderOverview(visibleData: LevelData[]): void {
+    const x = this.xScale.copy().range([0, this.width]);
+    const y = createDifficultyScale(this.scaleMode, visibleData.map(d => d.difficulty), [OVERVIEW_HEIGHT, 0]);
+    const barTop = (d: LevelData) => {
+      const top = y(d.difficulty);
+      return Number.isFinite(top) ? Math.min(top, OVERVIEW_HEIGHT) : OVERVIEW_HEIGHT;
+    };
+
+    this.overviewGroup.attr('transform', `translate(0,${this.height + this.margin.bottom - OVERVIEW_HEIGHT - OVERVIEW_GAP})`);
+    this.overviewGroup.select('.overview-background')
+      .attr('width', this.width)
+      .attr('height', OVERVIEW_HEIGHT);
+    if (this.overviewLayer) {
+      this.overviewLayer.resize(this.width, OVERVIEW_HEIGHT);
+      this.overviewLayer.setBars(visibleData.map(d => ({
+        key: d.name,
+        x: x(d.name) ?? 0,
+        width: x.bandwidth(),
+        y: barTop(d),
+        height: OVERVIEW_HEIGHT - barTop(d),
+        color: this.tierColor(d)
+      })), OVERVIEW_HEIGHT);
+      this.overviewLayer.render(1);
+    } else {
+      this.overviewGroup.select('.overview-bars')
+        .selectAll('rect')
+        .data(visibleData, (d: LevelData) => d.name)
+        .join('rect')
+        .attr('x', (d: LevelData) => x(d.name) || 0)
+        .attr('width', x.bandwidth())
+        .attr('y', barTop)
+        .attr('height', (d: LevelData) => OVERVIEW_HEIGHT - barTop(d))
+        .style('fill', (d: LevelData) => this.tierColor(d));
+    }
+
+    this.brush.extent([[0, 0], [this.width, OVERVIEW_HEIGHT]]);
+    this.brushGroup.call(this.brush);
+  }
+
+  // Bar centres increase left to right, so the nearest one is found by bisection
+  private nearestVisibleLevel(x: number): LevelData | undefined {
+    return this.visibleData[d3.bisectCenter(this.visibleCenters, this.zoomTransform.invertX(x))];
+  }
+
+  private xToNearestIndex(x: number): number {
+    const level = this.nearestVisibleLevel(x);
+    return level ? this.levelIndex(level) : 0;
+  }
+
+  // The level under a point in chart coordinates, using the same full-height columns as the SVG click areas
+  private levelAt(x: number, y: number): LevelData | null {
+    if (x < 0 || x > this.width || y < 0 || y > this.height) return null;
+    const level = this.nearestVisibleLevel(x);
+    const start = level ? this.xScale(level.name) : undefined;
+    return level && start !== undefined && x >= start && x <= start + this.xScale.bandwidth() ? level : null;
+  }
+
+  // Fills the column behind one level's bar (or none) and clears the rest
+  private setColumnHighlight(name: string | null, fill: string = 'transparent'): void {
+    if (this.barLayer) {
+      this.barLayer.setHighlights(name ? [{ key: name, color: fill }] : []);
+      return;
+    }
+    this.plotGroup.selectAll('.click-area')
+      .style('fill', (d: LevelData) => d.name === name ? fill : 'transparent');
+  }
+
+  private highlightAxisLabel(name: string, highlighted: boolean): void {
+    this.plotGroup.selectAll('.x-axis text')
+      .filter((d: string) => d === name)
+      .classed('highlight', highlighted)
+      .classed('normal', !highlighted);
+  }
+
+  // Canvas renderer: bars and the overview are painted onto canvases inside the SVG, which keeps
+  // its axes, bands, brush and selection line
+  private createCanvasLayers(): void {
+    this.barLayer = new CanvasBarLayer('bar-canvas');
+    this.plotGroup.node().appendChild(this.barLayer.element);
+    this.overviewLayer = new CanvasBarLayer('overview-canvas', 0.8);
+    this.overviewGroup.node().insertBefore(this.overviewLayer.element, this.brushGroup.node());
+    // With no focusable bars, the chart itself takes focus for the arrow keys
+    this.svg.attr('tabindex', 0);
+
+    // There are no elements per bar to listen on, so clicks and hover are hit-tested
+    const svgEl = this.svg.node() as SVGSVGElement;
+    svgEl.addEventListener('click', (ev: MouseEvent) => {
+      const level = this.levelAt(this.clientXToChartX(ev.clientX), this.clientYToChartY(ev.clientY));
+      if (!level) return;
+      this.selectLevel(this.levelIndex(level));
+      // Shift+click pins the bar for compare mode
+      if (ev.shiftKey) this.togglePin(this.levelIndex(level));
+    });
+    svgEl.addEventListener('mousemove', (ev: MouseEvent) => {
+      if (this.isSelecting) return;
+      const level = this.levelAt(this.clientXToChartX(ev.clientX), this.clientYToChartY(ev.clientY));
+      this.setHoveredLevel(level?.name ?? null);
+    });
+    svgEl.addEventListener('mouseleave', () => {
+      if (!this.isSelecting) this.setHoveredLevel(null);
+    });
+
+    // Colours are resolved from the theme when painting, so repaint when it changes
+    this.themeObserver = new MutationObserver(() => {
+      this.barLayer?.draw();
+      this.overviewLayer?.draw();
+    });
+    [document.documentElement, this.container].forEach(element => {
+      this.themeObserver?.observe(element, { attributes: true, attributeFilter: ['data-theme'] });
     });
-    return nearest;
+  }
+
+  private setHoveredLevel(name: string | null): void {
+    if (name === this.hoveredName) return;
+    if (this.hoveredName !== null) this.highlightAxisLabel(this.hoveredName, false);
+    this.hoveredName = name;
+    if (name !== null) this.highlightAxisLabel(name, true);
+    this.setColumnHighlight(name, 'var(--hover-bg)');
+    this.svg.style('cursor', name !== null ? 'pointer' : null);
   }
 
   private setupTouchHandlers(): void {
@@ -415,8 +1588,7 @@ export class GDVisualization {
         this.selectedLevelIndex = idx;
         this.updateDetailsPanel(this.data[this.selectedLevelIndex]);
         // Highlight the related click area visually
-        this.chartGroup.selectAll('.click-area')
-          .style('fill', (d: LevelData) => this.data.indexOf(d) === idx ? 'rgba(255,87,34,0.12)' : 'transparent');
+        this.setColumnHighlight(this.data[idx].name, 'var(--selection-bg)');
       }, 180);
     };
 
@@ -432,8 +1604,7 @@ export class GDVisualization {
       if (idx !== this.selectedLevelIndex) {
         this.selectedLevelIndex = idx;
         this.updateDetailsPanel(this.data[this.selectedLevelIndex]);
-        this.chartGroup.selectAll('.click-area')
-          .style('fill', (d: LevelData) => this.data.indexOf(d) === idx ? 'rgba(255,87,34,0.12)' : 'transparent');
+        this.setColumnHighlight(this.data[idx].name, 'var(--selection-bg)');
       }
     };
 
@@ -445,7 +1616,9 @@ export class GDVisualization {
       if (this.isSelecting) {
         this.isSelecting = false;
         if (this.selectionLine) this.selectionLine.style('display', 'none');
-        this.chartGroup.selectAll('.click-area').style('fill', 'transparent');
+        this.setColumnHighlight(null);
+        // Report the final selection once rather than on every move
+        this.notifyViewStateChange('select');
       }
     };
 
@@ -496,54 +1669,135 @@ export class GDVisualization {
     window.addEventListener('mousemove', (ev: MouseEvent) => {
       if (!mouseDown) return;
       movePress(ev.clientX);
-    });
+    }, { signal: this.listeners.signal });
 
     window.addEventListener('mouseup', () => {
       if (mouseDown) {
         mouseDown = false;
         endPress();
       }
-    });
+    }, { signal: this.listeners.signal });
   }
 
   private updateDetailsPanel(level: LevelData): void {
-    // Format difficulty value - show decimals if needed
-    const difficultyStr = level.difficulty % 1 === 0
-      ? level.difficulty.toLocaleString()
-      : level.difficulty.toLocaleString(undefined, { minimumFractionDigits: 1, maximumFractionDigits: 10 });
+    this.detailsLevel = level;
+    const difficultyStr = formatDifficulty(level.difficulty);
+    const tier = tierFor(level, this.tiers);
+    const position = this.sequencePosition.get(this.levelIndex(level));
+    this.announce(position !== undefined
+      ? `${describeLevel(level)}. Level ${position + 1} of ${this.visibleLevels} revealed.`
+      : `${describeLevel(level)}.`);
+
+    // Plain-text fields are escaped and links checked; commentary was sanitized by the constructor or setData()
+    const gdBrowserUrl = safeUrl(level.gdBrowserUrl);
 
     this.detailsPanel.innerHTML = `
-      <h2 style="margin-top: 0; margin-bottom: 10px;">${level.name}</h2>
-      ${level.publisher ? `<p style="color: var(--muted); margin-bottom: 15px;"><strong>Publisher:</strong> ${level.publisher}</p>` : ''}
+      <h2 style="margin-top: 0; margin-bottom: 10px;">${escapeHtml(level.name)}</h2>
+      <button class="pin-button" title="Pin for comparison (P)"></button>
+      ${PROGRESS_STATES.map(({ value, label }) => `<button class="progress-button" data-progress="${value}"${value === 'beaten' ? ' title="Mark as beaten (B)"' : ''}>${value === 'beaten' ? '✓' : '…'} ${label}</button>`).join('')}
+      ${level.publisher ? `<p style="color: var(--muted); margin-bottom: 15px;"><strong>Publisher:</strong> ${escapeHtml(level.publisher)}</p>` : ''}
       <p style="font-size: 18px; font-weight: bold; margin-bottom: 15px; color: var(--text);">
         Difficulty: ${difficultyStr}
-        ${level.gdBrowserUrl ? ` | <a href="${level.gdBrowserUrl}" target="_blank" style="color: var(--accent); text-decoration: none;">GDBrowser</a>` : ''}
+        ${tier ? ` | <span style="color: ${escapeHtml(tier.color)};">${escapeHtml(tier.name)}</span>` : ''}
+        ${gdBrowserUrl ? ` | <a href="${escapeHtml(gdBrowserUrl)}" target="_blank" rel="noopener noreferrer" style="color: var(--accent); text-decoration: none;">GDBrowser</a>` : ''}
       </p>
-      <iframe src="https://www.youtube-nocookie.com/embed/${level.youtubeUrl?.split('=')[1]}" title="YouTube" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" referrerpolicy="strict-origin-when-cross-origin" allowfullscreen></iframe>
+      <div class="video-container"></div>
       ${level.commentary ? `<div style="margin-top: 15px; line-height: 1.6;" class="commentary-content">${level.commentary}</div>` : ''}
     `;
+    this.renderVideo(this.detailsPanel.querySelector<HTMLElement>('.video-container')!, level);
+    const pinButton = this.detailsPanel.querySelector<HTMLButtonElement>('.pin-button')!;
+    pinButton.addEventListener('click', () => this.togglePin(this.levelIndex(level)));
+    this.updatePinButton();
+    // Pressing the button for the current state clears it
+    this.detailsPanel.querySelectorAll<HTMLButtonElement>('.progress-button').forEach(button => {
+      button.addEventListener('click', () => {
+        const index = this.levelIndex(level);
+        const state = button.dataset.progress as LevelProgress;
+        this.setProgress(index, this.getProgress(index) === state ? null : state);
+      });
+    });
+    this.updateProgressButtons();
   }
 
   private update(): void {
-    const visibleData = this.data.slice(0, this.visibleLevels);
-    const maxDifficulty = d3.max(visibleData, (d: LevelData) => d.difficulty) || 1;
-
-    // Update y-scale to fit visible data
-    this.yScale.domain([0, maxDifficulty]);
+    const visibleData = this.getVisibleData();
 
-    // Update x-scale to only show visible levels
+    // Update x-scale to only show visible levels, keeping the selection inside the zoomed window
     this.xScale.domain(visibleData.map(d => d.name));
+    this.updateZoomExtent(visibleData.length);
+    this.panToSelection();
+    const unzoomed = this.xScale.copy().range([0, this.width]);
+    this.visibleData = visibleData;
+    this.visibleCenters = visibleData.map(d => (unzoomed(d.name) ?? 0) + unzoomed.bandwidth() / 2);
+
+    this.renderChart(visibleData);
+    this.renderOverview(visibleData);
+    this.syncBrush();
+
+    // Update details panel with selected level; re-rendering it for the same level (a resize,
+    // a scale change, an export) would swap a playing video back to its thumbnail
+    if (this.sequence.length === 0) {
+      this.detailsLevel = null;
+      this.detailsPanel.innerHTML = '<p class="no-levels">No levels match the current filters.</p>';
+      this.announce('No levels match the current filters.');
+    } else if (this.selectedLevelIndex < this.data.length && this.data[this.selectedLevelIndex] !== this.detailsLevel) {
+      this.updateDetailsPanel(this.data[this.selectedLevelIndex]);
+    }
 
-    // Update x-axis (no tick marks)
+    this.updateNavigationButtons();
+    this.updateBarFocusOrder();
+    this.updateBarOutlines();
+    this.updateDataTable(visibleData);
+    this.annotationMenu.refresh();
+  }
+
+  /**
+   * The shared transition for one render, or null to apply it immediately (resizing, zooming,
+   * animation turned off, reduced motion). An update that arrives while the previous one is
+   * still animating continues from mid-flight and finishes when that one would have, instead
+   * of starting the full duration over, so rapid Forward clicks stay responsive.
+   */
+  private createTransition(): Transition<any, unknown, any, unknown> | null {
+    if (this.isResizing || this.animation === false || prefersReducedMotion()) return null;
+    const duration = this.animation.duration ?? DEFAULT_TRANSITION_DURATION;
+    if (duration <= 0) return null;
+
+    const now = d3.now();
+    const remaining = this.transitionEnd - now;
+    const chainedDuration = remaining > 0 ? Math.max(remaining, duration * MIN_CHAINED_FRACTION) : duration;
+    this.transitionEnd = now + chainedDuration;
+    return d3.transition()
+      .duration(chainedDuration)
+      .ease(this.animation.easing ?? d3.easeCubicOut) as Transition<any, unknown, any, unknown>;
+  }
+
+  // Axes, bars and click areas for the current scales and zoom window
+  private renderChart(visibleData: LevelData[]): void {
+    const transition = this.createTransition();
+
+    // Rebuild y-scale for the current mode, fitted to visible data
+    this.yScale = createDifficultyScale(this.scaleMode, visibleData.map(d => d.difficulty), [this.height, 0]);
+    this.updateTierBands(transition);
+
+    // Zooming stretches the band scale's range; the clip hides whatever falls outside the plot
+    this.xScale.range([this.zoomTransform.applyX(0), this.zoomTransform.applyX(this.width)]);
+    this.clipRect
+      .attr('x', 0)
+      .attr('y', -this.margin.top)
+      .attr('width', this.width)
+      .attr('height', this.margin.top + this.height + this.margin.bottom - OVERVIEW_HEIGHT - OVERVIEW_GAP);
+
+    // Update x-axis (no tick marks); the band keys are the level names
     const xAxis = d3.axisBottom(this.xScale)
       .tickSize(0)
-      .tickFormat((d: any) => {
-        const key = String(d);
-        const level = visibleData.find((l: LevelData) => l.name === key);
-        return level ? level.name : key;
-      });
+      .tickFormat((d: string) => d);
+    if (this.barLayer) {
+      // Thousands of levels can't all be labelled: keep every nth on-screen label so none overlap
+      const every = Math.max(1, Math.ceil(MIN_LABEL_SPACING / this.xScale.step()));
+      xAxis.tickValues(visibleData.filter((d, i) => i % every === 0 && !this.isOffscreen(d.name)).map(d => d.name));
+    }
 
-    const xAxisGroup = this.chartGroup.selectAll('.x-axis')
+    const xAxisGroup = this.plotGroup.selectAll('.x-axis')
       .data([null]);
 
     const xAxisGroupEnter = xAxisGroup.enter()
@@ -557,20 +1811,18 @@ export class GDVisualization {
     xAxisGroupMerged
       .attr('transform', `translate(0,${this.height})`);
 
-    // Update the axis (with or without transition based on resize state)
-    if (this.isResizing) {
-      xAxisGroupMerged.call(xAxis);
+    // Update the axis (animated unless this render is immediate)
+    if (transition) {
+      xAxisGroupMerged.transition(transition).call(xAxis);
     } else {
-      xAxisGroupMerged
-        .transition()
-        .duration(3000)
-        .ease(d3.easeCubicOut)
-        .call(xAxis);
+      xAxisGroupMerged.call(xAxis);
     }
 
     // On mobile we don't want x-axis labels — hide them completely
     xAxisGroupMerged.selectAll('text')
       .style('display', this.isMobile ? 'none' : null);
+    xAxisGroupMerged.selectAll('.tick')
+      .style('display', (d: string) => this.isOffscreen(d) ? 'none' : null);
 
     // Apply rotation and add hover handlers to all text elements (both new and existing)
     xAxisGroupMerged.selectAll('text')
@@ -581,40 +1833,29 @@ export class GDVisualization {
       .classed('normal', true)
       .style('cursor', 'pointer')
       .on('click', (event: MouseEvent, d: string) => {
-        void event;
-        const level = visibleData.find((l: LevelData) => l.name === d);
-        if (level) {
-          this.selectedLevelIndex = this.data.indexOf(level);
-          this.updateDetailsPanel(level);
-        }
+        // Keep the click from also reaching the canvas renderer's hit-testing
+        event.stopPropagation();
+        const index = this.indexByName.get(d);
+        if (index !== undefined) this.selectLevel(index);
       })
       .on('mouseover', (event: MouseEvent, d: string) => {
         void event;
-        const level = visibleData.find((l: LevelData) => l.name === d);
-        if (level) {
-          d3.select(event.currentTarget as SVGTextElement).classed('highlight', true).classed('normal', false);
-          const levelName = level.name;
-          this.chartGroup.selectAll('.click-area')
-            .filter((clickData: LevelData) => clickData.name === levelName)
-            .style('fill', 'var(--hover-bg)');
-        }
+        this.highlightAxisLabel(d, true);
+        this.setColumnHighlight(d, 'var(--hover-bg)');
       })
       .on('mouseout', (event: MouseEvent, d: string) => {
         void event;
-        const level = visibleData.find((l: LevelData) => l.name === d);
-        if (level) {
-          d3.select(event.currentTarget as SVGTextElement).classed('highlight', false).classed('normal', true);
-          const levelName = level.name;
-          this.chartGroup.selectAll('.click-area')
-            .filter((clickData: LevelData) => clickData.name === levelName)
-            .style('fill', 'transparent');
-        }
+        this.highlightAxisLabel(d, false);
+        this.setColumnHighlight(null);
       });
 
-    // Update y-axis (no ticks or labels)
+    // Update y-axis (labels only, abbreviated with SI prefixes from 1000 up)
+    const tickCount = Math.max(2, Math.floor(this.height / 60));
     const yAxis = d3.axisLeft(this.yScale)
       .tickSize(0)
-      .tickFormat(() => '');
+      .tickPadding(6)
+      .ticks(tickCount)
+      .tickFormat(difficultyTickFormat(this.yScale, tickCount));
 
     const yAxisGroup = this.chartGroup.selectAll('.y-axis')
       .data([null]);
@@ -626,39 +1867,41 @@ export class GDVisualization {
 
     const yAxisGroupMerged = yAxisGroupEnter.merge(yAxisGroup);
 
-    if (this.isResizing) {
+    if (transition) {
+      yAxisGroupMerged.transition(transition).call(yAxis);
+    } else {
       yAxisGroupMerged.call(yAxis);
+    }
+
+    if (this.barLayer) {
+      this.renderCanvasBars(this.barLayer, visibleData, transition);
     } else {
-      yAxisGroupMerged
-        .transition()
-        .duration(3000)
-        .ease(d3.easeCubicOut)
-        .call(yAxis);
+      this.renderSvgBars(visibleData, transition);
+    }
+    this.renderAnnotations(visibleData, transition);
+
+    // Ensure selection line height matches current chart height
+    if (this.selectionLine) {
+      this.selectionLine.attr('y2', this.height);
+      if (!this.isSelecting) this.selectionLine.style('display', 'none');
     }
+  }
 
+  // One rect per bar plus a focusable click area over its column, each with its own transition
+  private renderSvgBars(visibleData: LevelData[], transition: Transition<any, unknown, any, unknown> | null): void {
     // Update bars
-    const bars = this.chartGroup.selectAll('.bar')
+    const bars = this.plotGroup.selectAll('.bar')
       .data(visibleData, (d: LevelData) => d.name);
 
     // Remove bars that are no longer visible
     const barsExit = bars.exit();
-    if (this.isResizing) {
-      barsExit
-        .attr('height', 0)
-        .attr('y', this.height)
-        .remove();
-    } else {
-      barsExit
-        .transition()
-        .duration(3000)
-        .ease(d3.easeCubicOut)
-        .attr('height', 0)
-        .attr('y', this.height)
-        .remove();
-    }
+    (transition ? barsExit.transition(transition) : barsExit)
+      .attr('height', 0)
+      .attr('y', this.height)
+      .remove();
 
     // Add invisible clickable rectangles that extend to the top
-    const clickAreas = this.chartGroup.selectAll('.click-area')
+    const clickAreas = this.plotGroup.selectAll('.click-area')
       .data(visibleData, (d: LevelData) => d.name);
 
     clickAreas.exit().remove();
@@ -670,56 +1913,40 @@ export class GDVisualization {
       .attr('width', this.xScale.bandwidth())
       .attr('y', 0)
       .attr('height', this.height)
+      .attr('role', 'button')
       .style('fill', 'transparent')
       .style('cursor', 'pointer')
-      .on('click', (event: MouseEvent, d: LevelData) => {
+      .on('focus', (event: FocusEvent, d: LevelData) => {
         void event;
-        this.selectedLevelIndex = this.data.indexOf(d);
-        this.updateDetailsPanel(d);
+        const index = this.levelIndex(d);
+        if (index !== this.selectedLevelIndex) this.selectLevel(index);
+      })
+      .on('click', (event: MouseEvent, d: LevelData) => {
+        this.selectLevel(this.levelIndex(d));
+        // Shift+click pins the bar for compare mode
+        if (event.shiftKey) this.togglePin(this.levelIndex(d));
       })
       .on('mouseover', (event: MouseEvent, d: LevelData) => {
-        void event;
-        // Highlight corresponding x-axis label by toggling class
-        const levelName = d.name;
-        this.chartGroup.selectAll('.x-axis text')
-          .each(function (this: Element) {
-            if (d3.select(this).text() === levelName) {
-              d3.select(this).classed('highlight', true).classed('normal', false);
-            }
-          });
-        // Highlight click area
+        // Highlight corresponding x-axis label and click area
+        this.highlightAxisLabel(d.name, true);
         d3.select(event.currentTarget as SVGRectElement)
           .style('fill', 'var(--hover-bg)');
       })
       .on('mouseout', (event: MouseEvent, d: LevelData) => {
-        void event;
-        const levelName = d.name;
-        this.chartGroup.selectAll('.x-axis text')
-          .each(function (this: Element) {
-            if (d3.select(this).text() === levelName) {
-              d3.select(this).classed('highlight', false).classed('normal', true);
-            }
-          });
+        this.highlightAxisLabel(d.name, false);
         d3.select(event.currentTarget as SVGRectElement)
           .style('fill', 'transparent');
       });
 
-    const clickAreasMerged = clickAreasEnter.merge(clickAreas as any);
+    // Levels zoomed out of view are hidden so they can't be focused or clicked
+    const clickAreasMerged = clickAreasEnter.merge(clickAreas as any)
+      .attr('aria-label', (d: LevelData) => describeLevel(d))
+      .style('display', (d: LevelData) => this.isOffscreen(d.name) ? 'none' : null);
 
-    if (this.isResizing) {
-      clickAreasMerged
-        .attr('x', (d: LevelData) => this.xScale(d.name) || 0)
-        .attr('width', this.xScale.bandwidth())
-        .attr('height', this.height);
-    } else {
-      clickAreasMerged
-        .transition()
-        .duration(3000)
-        .ease(d3.easeCubicOut)
-        .attr('x', (d: LevelData) => this.xScale(d.name) || 0)
-        .attr('width', this.xScale.bandwidth())
-        .attr('height', this.height);
-    }
+    (transition ? clickAreasMerged.transition(transition) : clickAreasMerged)
+      .attr('x', (d: LevelData) => this.xScale(d.name) || 0)
+      .attr('width', this.xScale.bandwidth())
+      .attr('height', this.height);
 
     // Add new bars
     const barsEnter = (bars.enter()
@@ -729,40 +1956,100 @@ export class GDVisualization {
       .attr('width', this.xScale.bandwidth())
       .attr('y', this.height)
       .attr('height', 0)
-      .style('fill', 'var(--bar)')
       .style('pointer-events', 'none'); // Let click areas handle interactions
 
-    // Update existing and new bars
-    const barsMerged = barsEnter.merge(bars as any);
+    // Update existing and new bars, coloured by tier
+    const barsMerged = barsEnter.merge(bars as any)
+      .style('fill', (d: LevelData) => this.tierColor(d))
+      .style('display', (d: LevelData) => this.isOffscreen(d.name) ? 'none' : null);
 
-    if (this.isResizing) {
-      barsMerged
-        .attr('x', (d: LevelData) => this.xScale(d.name) || 0)
-        .attr('width', this.xScale.bandwidth())
-        .attr('y', (d: LevelData) => this.yScale(d.difficulty))
-        .attr('height', (d: LevelData) => this.height - this.yScale(d.difficulty));
+    (transition ? barsMerged.transition(transition) : barsMerged)
+      .attr('x', (d: LevelData) => this.xScale(d.name) || 0)
+      .attr('width', this.xScale.bandwidth())
+      .attr('y', (d: LevelData) => this.barY(d))
+      .attr('height', (d: LevelData) => this.height - this.barY(d));
+  }
+
+  // All bars animate together on the canvas: one tween redraws every bar per frame
+  private renderCanvasBars(layer: CanvasBarLayer, visibleData: LevelData[], transition: Transition<any, unknown, any, unknown> | null): void {
+    // Stop the running tween first so it doesn't draw the new targets at its own progress
+    const element = d3.select(layer.element).interrupt();
+    layer.resize(this.width, this.height);
+    layer.setBars(visibleData.map(d => ({
+      key: d.name,
+      x: this.xScale(d.name) ?? 0,
+      width: this.xScale.bandwidth(),
+      y: this.barY(d),
+      height: this.height - this.barY(d),
+      color: this.tierColor(d)
+    })), this.height);
+    if (transition) {
+      element.transition(transition).tween('bars', () => (t: number) => layer.render(t));
     } else {
-      barsMerged
-        .transition()
-        .duration(3000)
-        .ease(d3.easeCubicOut)
-        .attr('x', (d: LevelData) => this.xScale(d.name) || 0)
-        .attr('width', this.xScale.bandwidth())
-        .attr('y', (d: LevelData) => this.yScale(d.difficulty))
-        .attr('height', (d: LevelData) => this.height - this.yScale(d.difficulty));
-    }
-
-    // Update details panel with selected level
-    if (this.selectedLevelIndex < this.data.length) {
-      this.updateDetailsPanel(this.data[this.selectedLevelIndex]);
+      layer.render(1);
     }
+  }
 
-    this.updateNavigationButtons();
+  /**
+   * Positions the annotations for the current scales, zoom and size. Lines outside the y-domain
+   * and markers or callouts on levels that aren't revealed (or are zoomed out of view) are hidden.
+   */
+  private renderAnnotations(visibleData: LevelData[], transition: Transition<any, unknown, any, unknown> | null): void {
+    const shown = new Set(visibleData.map(d => d.name));
+    const anchor = (d: Annotation): [number, number] | null => {
+      if (d.kind === 'line') {
+        const y = this.yScale(d.difficulty);
+        return Number.isFinite(y) && y >= 0 && y <= this.height ? [0, y] : null;
+      }
+      const index = this.indexByName.get(d.level);
+      if (index === undefined || !shown.has(d.level) || this.isOffscreen(d.level)) return null;
+      const x = (this.xScale(d.level) ?? 0) + this.xScale.bandwidth() / 2;
+      // A callout on the tallest bar would be clipped above the plot, so it overlaps the bar instead
+      return [x, d.kind === 'marker' ? 0 : Math.max(this.barY(this.data[index]), CALLOUT_CLEARANCE)];
+    };
+    const translate = (d: Annotation) => {
+      const [x, y] = anchor(d) ?? [0, 0];
+      return `translate(${x},${y})`;
+    };
 
-    // Ensure selection line height matches current chart height
-    if (this.selectionLine) {
-      this.selectionLine.attr('y2', this.height);
-      if (!this.isSelecting) this.selectionLine.style('display', 'none');
-    }
+    const youAreHere = this.youAreHere();
+    const groups = this.annotationGroup.selectAll('.annotation')
+      .data([...this.getAnnotations(), ...(youAreHere ? [youAreHere] : [])], (d: Annotation, i: number) => `${i}:${d.kind}:${d.label}`)
+      .join((enter: any) => {
+        const g = enter.append('g')
+          .attr('class', (d: Annotation) => `annotation annotation-${d.kind}`)
+          .attr('transform', translate);
+        g.append('line');
+        g.append('text');
+        return g;
+      });
+    // SVG bars are appended as levels are revealed; keep the annotations on top of them
+    this.annotationGroup.raise();
+
+    // Annotations coming back into view are placed directly instead of sliding in from where they were hidden
+    groups.filter(function (this: SVGGElement) { return this.style.display === 'none'; })
+      .attr('transform', translate);
+    groups.style('display', (d: Annotation) => anchor(d) ? null : 'none')
+      .classed('annotation-you-are-here', (d: Annotation) => d === youAreHere);
+    groups.select('line')
+      .attr('x2', (d: Annotation) => d.kind === 'line' ? this.width : 0)
+      .attr('y1', (d: Annotation) => d.kind === 'callout' ? -4 : 0)
+      .attr('y2', (d: Annotation) => d.kind === 'marker' ? this.height : d.kind === 'callout' ? -16 : 0);
+    groups.select('text')
+      .text((d: Annotation) => d.label)
+      .attr('x', (d: Annotation) => d.kind === 'line' ? this.width - 4 : d.kind === 'marker' ? 4 : 0)
+      .attr('y', (d: Annotation) => d.kind === 'line' ? -4 : d.kind === 'marker' ? 12 : -20)
+      .style('text-anchor', (d: Annotation) => d.kind === 'line' ? 'end' : d.kind === 'marker' ? 'start' : 'middle');
+
+    const visible = groups.filter((d: Annotation) => anchor(d) !== null);
+    (transition ? visible.transition(transition) : visible).attr('transform', translate);
+  }
+
+  // A reference line at the viewer's hardest completion, labelled with the next step up
+  private youAreHere(): Annotation | null {
+    const { hardest, next, ratio } = this.getProgressSummary();
+    if (!hardest) return null;
+    const step = next && ratio !== null ? ` · next: ${next.name}, ${formatRatio(ratio)} harder` : '';
+    return { kind: 'line', label: `You are here${step}`, difficulty: hardest.difficulty };
   }
 }
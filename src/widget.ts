@@ -0,0 +1,220 @@
+import type { Annotation } from './annotations';
+import { reportParseDiagnostics } from './dataParser';
+import type { LevelData } from './dataParser';
+import { UrlSource, isLevelDataFormat } from './dataSources';
+import { isScaleMode } from './scales';
+import { isThemePreference, resolveTheme, watchSystemTheme } from './theme';
+import { reportValidationIssues, validateLevelData } from './validation';
+import { GDVisualization } from './visualization';
+import type { ViewState, ViewStateChangeReason } from './visualization';
+import './style.css';
+
+export { GDVisualization } from './visualization';
+export type { AnimationSettings, ChartRenderer, VisualizationConfig, ViewState, ViewStateChangeReason } from './visualization';
+export type { Annotation, AnnotationKind } from './annotations';
+export type { LevelData } from './dataParser';
+export type { LevelFilter, LevelOrdering, RevealOrder, SortKey } from './levelOrder';
+export type { LevelProgress, ProgressSummary } from './progress';
+
+export interface LevelSelectedDetail {
+  level: LevelData;
+  index: number;
+}
+
+export interface RevealChangedDetail {
+  visibleLevels: number;
+  /** Levels Forward can reveal, after the sort & filter menu's filters */
+  totalLevels: number;
+}
+
+/**
+ * `<gd-difficulty-chart src="levels.json">` — the difficulty chart as a self-contained element
+ * for embedding in other pages. Levels come from the `src` attribute (JSON, CSV or the blog
+ * post's HTML, see `format`) or from the `levels` property. Optional attributes: `scale`
+ * (linear, log, symlog, sqrt), `theme` (dark, light, high-contrast, or the default system) and
+ * `renderer` (svg, or canvas for lists with thousands of levels). Annotations in a JSON `src` are drawn;
+ * the ones a viewer adds are saved in localStorage per `src`.
+ *
+ * Fires `levelselected` and `revealchanged` as the viewer moves through the chart.
+ */
+export class GDDifficultyChart extends HTMLElement {
+  static observedAttributes = ['src', 'format', 'scale', 'theme', 'renderer'];
+
+  private visualization: GDVisualization | null = null;
+  private levelData: LevelData[] | null = null;
+  private annotations: Annotation[] = [];
+  private lastState: ViewState | null = null;
+  // Follows OS theme changes while the theme is 'system'; aborted when it changes or on disconnect
+  private themeListeners: AbortController | null = null;
+  // Incremented per load so a slow response can't overwrite a newer one
+  private loadCount = 0;
+
+  get levels(): LevelData[] | null {
+    return this.levelData;
+  }
+
+  /** Levels given here are validated like a loaded list; the getter returns the ones kept. */
+  set levels(levels: LevelData[] | null) {
+    this.loadCount++;
+    if (levels) {
+      const { levels: valid, issues } = validateLevelData(levels);
+      reportValidationIssues('<gd-difficulty-chart> levels property', issues);
+      this.levelData = valid;
+    } else {
+      this.levelData = null;
+    }
+    this.annotations = [];
+    if (this.isConnected) this.render();
+  }
+
+  connectedCallback(): void {
+    this.applyTheme();
+    if (this.levelData) {
+      this.render();
+    } else {
+      void this.load();
+    }
+  }
+
+  disconnectedCallback(): void {
+    this.destroy();
+    this.themeListeners?.abort();
+    this.themeListeners = null;
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (!this.isConnected || oldValue === newValue) return;
+    switch (name) {
+      case 'src':
+      case 'format':
+        void this.load();
+        break;
+      case 'scale':
+        if (isScaleMode(newValue)) this.visualization?.setScaleMode(newValue);
+        break;
+      case 'theme':
+        this.applyTheme();
+        break;
+      case 'renderer':
+        if (this.levelData) this.render();
+        break;
+    }
+  }
+
+  /** Selects the level with this name, revealing it if needed; returns false if there is none. */
+  public goTo(name: string): boolean {
+    return this.visualization?.goTo(name) ?? false;
+  }
+
+  public setVisibleCount(count: number): void {
+    this.visualization?.setVisibleCount(count);
+  }
+
+  /** Tears the chart down; it is rebuilt when the element is connected again or given new levels. */
+  public destroy(): void {
+    this.visualization?.destroy();
+    this.visualization = null;
+    this.lastState = null;
+  }
+
+  // 'system' (or no attribute) follows the OS, including later changes; otherwise the element carries its own palette
+  private applyTheme(): void {
+    const theme = this.getAttribute('theme');
+    const preference = isThemePreference(theme) ? theme : 'system';
+    this.dataset.theme = resolveTheme(preference);
+    this.themeListeners?.abort();
+    this.themeListeners = null;
+    if (preference === 'system') {
+      this.themeListeners = new AbortController();
+      watchSystemTheme(() => this.applyTheme(), this.themeListeners.signal);
+    }
+  }
+
+  private async load(): Promise<void> {
+    const url = this.getAttribute('src');
+    if (!url) return;
+    const format = this.getAttribute('format');
+    const loadId = ++this.loadCount;
+
+    try {
+      const source = new UrlSource(url, isLevelDataFormat(format) ? format : undefined, '<gd-difficulty-chart>');
+      const { levels, annotations, issues, diagnostics } = await source.load();
+      reportParseDiagnostics(source.description, diagnostics);
+      reportValidationIssues(source.description, issues);
+      if (loadId !== this.loadCount) return;
+      this.levelData = levels;
+      this.annotations = annotations;
+      this.render();
+    } catch (error) {
+      if (loadId !== this.loadCount) return;
+      this.destroy();
+      this.showMessage(`Could not load levels: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`<gd-difficulty-chart> failed to load ${url}:`, error);
+    }
+  }
+
+  private render(): void {
+    this.destroy();
+    this.replaceChildren();
+    if (!this.levelData || this.levelData.length === 0) {
+      this.showMessage('No levels to show.');
+      return;
+    }
+
+    const scale = this.getAttribute('scale');
+    const renderer = this.getAttribute('renderer');
+    const src = this.getAttribute('src');
+    const levels = this.levelData;
+    this.visualization = new GDVisualization({
+      container: this,
+      data: levels,
+      scaleMode: isScaleMode(scale) ? scale : undefined,
+      renderer: renderer === 'canvas' ? 'canvas' : 'svg',
+      annotations: this.annotations,
+      storageKey: src ? `<gd-difficulty-chart> ${src}` : undefined,
+      globalKeyboard: false,
+      onViewStateChange: (state, reason) => this.dispatchStateEvents(state, reason)
+    });
+    this.lastState = this.visualization.getViewState();
+  }
+
+  private dispatchStateEvents(state: ViewState, reason: ViewStateChangeReason): void {
+    const levels = this.levelData ?? [];
+    if (state.visibleLevels !== this.lastState?.visibleLevels || reason === 'order' || reason === 'data') {
+      this.dispatchEvent(new CustomEvent<RevealChangedDetail>('revealchanged', {
+        bubbles: true,
+        composed: true,
+        detail: { visibleLevels: state.visibleLevels, totalLevels: this.visualization?.getRevealSequence().length ?? levels.length }
+      }));
+    }
+    if (state.selectedLevelIndex !== this.lastState?.selectedLevelIndex) {
+      this.dispatchEvent(new CustomEvent<LevelSelectedDetail>('levelselected', {
+        bubbles: true,
+        composed: true,
+        detail: { level: levels[state.selectedLevelIndex], index: state.selectedLevelIndex }
+      }));
+    }
+    this.lastState = state;
+  }
+
+  private showMessage(message: string): void {
+    const text = document.createElement('p');
+    text.className = 'gd-chart-message';
+    text.textContent = message;
+    this.replaceChildren(text);
+  }
+}
+
+if (!customElements.get('gd-difficulty-chart')) {
+  customElements.define('gd-difficulty-chart', GDDifficultyChart);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gd-difficulty-chart': GDDifficultyChart;
+  }
+  interface HTMLElementEventMap {
+    levelselected: CustomEvent<LevelSelectedDetail>;
+    revealchanged: CustomEvent<RevealChangedDetail>;
+  }
+}
@@ -0,0 +1,88 @@
+export interface YouTubeVideo {
+  id: string;
+  /** Start offset in seconds, from `t=` or `start=` */
+  start: number | null;
+  /** Playlist id, from `list=` */
+  playlist: string | null;
+}
+
+const VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_HOSTS = /^(?:www\.|m\.|music\.)?youtube(?:-nocookie)?\.com$/;
+// Path prefixes that are followed by the video id, e.g. /embed/ID, /shorts/ID
+const ID_PATH_PREFIXES = ['embed', 'shorts', 'live', 'v', 'e'];
+
+/** Parses "90", "90s", "1m30s", "1h2m3s" or "1:30" into seconds; null if unrecognised. */
+export function parseTimestamp(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+s?$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  const units = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && (units[1] || units[2] || units[3])) {
+    return (parseInt(units[1] || '0', 10) * 3600) + (parseInt(units[2] || '0', 10) * 60) + parseInt(units[3] || '0', 10);
+  }
+  if (/^\d+(?::\d{1,2}){1,2}$/.test(value)) {
+    return value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  }
+  return null;
+}
+
+/**
+ * Extracts the video id, start time and playlist from any common YouTube link:
+ * watch?v=, youtu.be/, /embed/, /shorts/, /live/ and their m./music./nocookie variants.
+ * Returns null for non-YouTube URLs and links without a valid video id.
+ */
+export function parseYouTubeUrl(url: string | null | undefined): YouTubeVideo | null {
+  if (!url) return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  let id: string | null = null;
+
+  if (host === 'youtu.be' || host === 'www.youtu.be') {
+    id = segments[0] ?? null;
+  } else if (YOUTUBE_HOSTS.test(host)) {
+    if (segments[0] === 'watch') {
+      id = parsed.searchParams.get('v');
+    } else if (ID_PATH_PREFIXES.includes(segments[0])) {
+      id = segments[1] ?? null;
+    }
+  } else {
+    return null;
+  }
+
+  if (!id || !VIDEO_ID.test(id)) return null;
+
+  // Timestamps can also live in the fragment, e.g. #t=1m30s
+  const hashParams = new URLSearchParams(parsed.hash.replace(/^#/, ''));
+  const start = parseTimestamp(parsed.searchParams.get('t') ?? parsed.searchParams.get('start') ?? hashParams.get('t'));
+  const playlist = parsed.searchParams.get('list');
+
+  return {
+    id,
+    start: start && start > 0 ? start : null,
+    playlist: playlist && /^[A-Za-z0-9_-]+$/.test(playlist) ? playlist : null
+  };
+}
+
+/** Origin of the privacy-enhanced player, the only one the guided tour talks to. */
+export const YOUTUBE_EMBED_ORIGIN = 'https://www.youtube-nocookie.com';
+
+/** Privacy-enhanced embed URL; `enablejsapi` lets the guided tour follow playback. */
+export function youTubeEmbedUrl(video: YouTubeVideo, autoplay: boolean = false): string {
+  const params = new URLSearchParams({ enablejsapi: '1' });
+  if (autoplay) params.set('autoplay', '1');
+  if (video.start) params.set('start', String(video.start));
+  if (video.playlist) params.set('list', video.playlist);
+  return `${YOUTUBE_EMBED_ORIGIN}/embed/${video.id}?${params.toString()}`;
+}
+
+export function youTubeThumbnailUrl(video: YouTubeVideo): string {
+  return `https://i.ytimg.com/vi/${video.id}/hqdefault.jpg`;
+}
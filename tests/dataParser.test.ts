@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { parseLevelDataFromHtml } from '../src/dataParser';
+import basicPost from './fixtures/blog-basic.html?raw';
+import edgeCasePost from './fixtures/blog-edge-cases.html?raw';
+
+function commentaryDocument(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('parseLevelDataFromHtml', () => {
+  describe('basic blog post', () => {
+    const { levels, diagnostics } = parseLevelDataFromHtml(basicPost);
+
+    it('finds one level per h3 with a difficulty line', () => {
+      expect(levels.map(level => level.name)).toEqual(['Stereo Madness', 'Bloodbath', 'Tartarus']);
+    });
+
+    it('splits name and publisher on "by" and "-"', () => {
+      expect(levels.map(level => level.publisher)).toEqual(['RobTop', 'Riot', 'Dolphy']);
+    });
+
+    it('parses integer, comma-grouped and decimal difficulties', () => {
+      expect(levels.map(level => level.difficulty)).toEqual([1, 1250, 4321.5]);
+    });
+
+    it('extracts YouTube and GDBrowser links from the difficulty line or the next paragraph', () => {
+      expect(levels[0].youtubeUrl).toBe('https://www.youtube.com/watch?v=JKS9s3lSEtE');
+      expect(levels[0].gdBrowserUrl).toBe('https://gdbrowser.com/1');
+      expect(levels[1].youtubeUrl).toBe('https://youtu.be/Ck4hpaTxqZ8');
+      expect(levels[1].gdBrowserUrl).toBe('https://gdbrowser.com/10565740');
+    });
+
+    it('starts commentary after the difficulty line and link paragraph', () => {
+      const doc = commentaryDocument(levels[1].commentary);
+      expect(doc.body.textContent).not.toMatch(/Difficulty value/);
+      expect(doc.querySelectorAll('p')[0].textContent).toMatch(/^A classic extreme demon/);
+      expect(doc.querySelector('blockquote')?.textContent).toContain('Quoted verifier remark.');
+    });
+
+    it('keeps links in commentary that are not the level links', () => {
+      const doc = commentaryDocument(levels[1].commentary);
+      const hrefs = Array.from(doc.querySelectorAll('a')).map(a => a.getAttribute('href'));
+      expect(hrefs).toEqual(['https://example.com/bloodbath']);
+    });
+
+    it('removes the level links from the difficulty line when it is the only content', () => {
+      expect(levels[0].commentary).not.toContain('gdbrowser.com');
+      expect(commentaryDocument(levels[0].commentary).body.textContent?.trim()).toBe('The very first level.');
+    });
+
+    it('reports nothing for a well-formed post', () => {
+      expect(diagnostics).toEqual([]);
+    });
+  });
+
+  describe('edge cases', () => {
+    const { levels, diagnostics } = parseLevelDataFromHtml(edgeCasePost);
+    const byName = (name: string) => levels.find(level => level.name === name)!;
+    const kindsFor = (heading: string) => diagnostics.filter(d => d.heading === heading).map(d => d.kind);
+
+    it('skips headings without a difficulty value and reports them', () => {
+      expect(levels.map(level => level.name)).not.toContain('Not a level at all');
+      expect(kindsFor('Not a level at all')).toEqual(['skipped-heading']);
+    });
+
+    it('uses the whole heading as the name when there is no publisher separator', () => {
+      const level = byName('Nameless Wonder');
+      expect(level.publisher).toBe('');
+      expect(level.youtubeUrl).toBeNull();
+      expect(level.gdBrowserUrl).toBeNull();
+      expect(kindsFor('Nameless Wonder')).toEqual(['missing-publisher', 'missing-youtube-link', 'missing-gdbrowser-link']);
+    });
+
+    it('splits at the first separator and flags the heading as ambiguous', () => {
+      const level = byName('Part One');
+      expect(level.publisher).toBe('Part Two by Somebody');
+      expect(kindsFor('Part One - Part Two by Somebody')).toEqual(['ambiguous-name-split', 'missing-youtube-link']);
+    });
+
+    it('inlines referenced footnotes with their original numbering and without backrefs', () => {
+      const doc = commentaryDocument(byName('Footnoted').commentary);
+      const items = doc.querySelectorAll('.commentary-footnotes ol > li');
+      expect(items).toHaveLength(1);
+      expect(items[0].getAttribute('value')).toBe('3');
+      expect(items[0].textContent).toContain('Source for the first claim.');
+      expect(items[0].querySelector('a[data-footnote-backref]')).toBeNull();
+    });
+
+    it('replaces resolved footnote links with plain text', () => {
+      const doc = commentaryDocument(byName('Footnoted').commentary);
+      expect(doc.querySelector('a[href="#user-content-fn-3"]')).toBeNull();
+      expect(doc.querySelector('sup')?.textContent).toBe('3');
+    });
+
+    it('reports footnote references with no matching footnote', () => {
+      expect(kindsFor('Footnoted by Writer')).toEqual(['unresolved-footnote']);
+      expect(diagnostics.find(d => d.kind === 'unresolved-footnote')?.message).toContain('#user-content-fn-9');
+    });
+  });
+});
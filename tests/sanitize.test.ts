@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, htmlToText, safeUrl, sanitizeHtml } from '../src/sanitize';
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed formatting', () => {
+    const html = '<p>Some <strong>bold</strong> and <em>italic</em> text</p><ol start="2"><li value="3">Note</li></ol>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('drops scripts, styles and embedded documents with their content', () => {
+    expect(sanitizeHtml('<p>ok</p><script>alert(1)</script><style>p{}</style><iframe src="https://evil.example"></iframe>'))
+      .toBe('<p>ok</p>');
+  });
+
+  it('unwraps unknown tags but keeps their text', () => {
+    expect(sanitizeHtml('<section><font color="red">Hello</font></section>')).toBe('Hello');
+  });
+
+  it('removes event handlers and inline styles', () => {
+    expect(sanitizeHtml('<img src="https://example.com/a.png" onerror="alert(1)" style="position:fixed">'))
+      .toBe('<img src="https://example.com/a.png">');
+  });
+
+  it('removes javascript: and data: URLs', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href=" java\tscript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img src="data:image/svg+xml,<svg onload=alert(1)>">')).toBe('<img>');
+  });
+
+  it('opens external links in a new tab without an opener', () => {
+    expect(sanitizeHtml('<a href="https://example.com" target="_top">x</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+
+  it('leaves in-page links alone', () => {
+    expect(sanitizeHtml('<a href="#user-content-fn-1">1</a>')).toBe('<a href="#user-content-fn-1">1</a>');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeHtml(`<b title="x">'&'</b>`)).toBe('&lt;b title=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/b&gt;');
+  });
+});
+
+describe('htmlToText', () => {
+  it('keeps the text and collapses whitespace', () => {
+    expect(htmlToText('<p>First  line</p>\n<p>Second <b>line</b></p>')).toBe('First line Second line');
+    expect(htmlToText('')).toBe('');
+  });
+});
+
+describe('safeUrl', () => {
+  it('accepts absolute http(s) URLs only by default', () => {
+    expect(safeUrl('https://gdbrowser.com/1')).toBe('https://gdbrowser.com/1');
+    expect(safeUrl('/relative')).toBeNull();
+    expect(safeUrl('javascript:alert(1)')).toBeNull();
+    expect(safeUrl(null)).toBeNull();
+  });
+
+  it('accepts relative paths when allowed, but not protocol-relative ones', () => {
+    expect(safeUrl('/relative', true)).toBe('/relative');
+    expect(safeUrl('//evil.example/x', true)).toBeNull();
+  });
+});
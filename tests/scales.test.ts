@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createDifficultyScale, difficultyTickFormat } from '../src/scales';
+
+function tickLabels(scale: ReturnType<typeof createDifficultyScale>, count: number): string[] {
+  const format = difficultyTickFormat(scale, count);
+  return scale.ticks(count).map(format).filter(label => label !== '');
+}
+
+describe('createDifficultyScale', () => {
+  it('starts a log scale a power of ten below the easiest level', () => {
+    expect(createDifficultyScale('log', [1, 50, 100], [500, 0]).domain()).toEqual([0.1, 100]);
+    expect(createDifficultyScale('log', [0.5, 20], [500, 0]).domain()).toEqual([0.1, 20]);
+  });
+
+  it('starts the other scales at zero', () => {
+    expect(createDifficultyScale('linear', [5, 40], [500, 0]).domain()).toEqual([0, 40]);
+    expect(createDifficultyScale('sqrt', [5, 40], [500, 0]).domain()).toEqual([0, 40]);
+  });
+});
+
+describe('difficultyTickFormat', () => {
+  it('labels ticks below 1000 as plain numbers, not with milli suffixes', () => {
+    const labels = tickLabels(createDifficultyScale('log', [0.5, 100], [500, 0]), 5);
+    expect(labels).toEqual(['0.1', '1', '10', '100']);
+    expect(difficultyTickFormat(createDifficultyScale('linear', [0.5, 2], [500, 0]), 5)(0.5)).toBe('0.5');
+  });
+
+  it('abbreviates thousands and up with SI suffixes', () => {
+    expect(tickLabels(createDifficultyScale('linear', [100, 20000], [500, 0]), 4)).toEqual(['0', '5k', '10k', '15k', '20k']);
+    expect(tickLabels(createDifficultyScale('log', [1, 2_000_000], [500, 0]), 4)).toContain('1M');
+  });
+});
@@ -0,0 +1,9 @@
+// jsdom does not implement SVG transform lists, which d3 uses to interpolate `transform`
+// attributes during transitions. An empty list makes d3 fall back to the identity transform.
+if (!('transform' in SVGElement.prototype)) {
+  Object.defineProperty(SVGElement.prototype, 'transform', {
+    get() {
+      return { baseVal: { consolidate: () => null } };
+    }
+  });
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applyTheme, readThemePreference, resolveTheme, writeThemePreference } from '../src/theme';
+
+// Answers `matchMedia` as an OS with the given settings would
+function mockSystemSettings(matching: string[]): void {
+  vi.stubGlobal('matchMedia', (query: string) => ({
+    matches: matching.includes(query),
+    addEventListener: () => {}
+  }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  window.localStorage.clear();
+  delete document.documentElement.dataset.theme;
+});
+
+describe('resolveTheme', () => {
+  it('returns an explicit theme whatever the system settings', () => {
+    mockSystemSettings(['(prefers-contrast: more)', '(prefers-color-scheme: light)']);
+    expect(resolveTheme('dark')).toBe('dark');
+    expect(resolveTheme('light')).toBe('light');
+  });
+
+  it('follows the system contrast, then colour scheme, for "system"', () => {
+    mockSystemSettings(['(prefers-contrast: more)', '(prefers-color-scheme: light)']);
+    expect(resolveTheme('system')).toBe('high-contrast');
+    mockSystemSettings(['(prefers-color-scheme: light)']);
+    expect(resolveTheme('system')).toBe('light');
+    mockSystemSettings([]);
+    expect(resolveTheme('system')).toBe('dark');
+  });
+});
+
+describe('theme preference', () => {
+  it('is saved and restored, defaulting to "system"', () => {
+    expect(readThemePreference()).toBe('system');
+    writeThemePreference('high-contrast');
+    expect(readThemePreference()).toBe('high-contrast');
+    window.localStorage.setItem('gd-viz:theme', 'sepia');
+    expect(readThemePreference()).toBe('system');
+  });
+
+  it('falls back to "system" when storage throws', () => {
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => { throw new Error('denied'); });
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new Error('denied'); });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => writeThemePreference('light')).not.toThrow();
+    expect(warn).toHaveBeenCalledOnce();
+    expect(readThemePreference()).toBe('system');
+  });
+});
+
+describe('applyTheme', () => {
+  it('tags the root element with the resolved theme', () => {
+    mockSystemSettings(['(prefers-color-scheme: light)']);
+    expect(applyTheme('system')).toBe('light');
+    expect(document.documentElement.dataset.theme).toBe('light');
+    applyTheme('high-contrast');
+    expect(document.documentElement.dataset.theme).toBe('high-contrast');
+  });
+});
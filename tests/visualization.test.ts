@@ -0,0 +1,521 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LevelData } from '../src/dataParser';
+import { DEFAULT_ORDERING } from '../src/levelOrder';
+import { GDVisualization } from '../src/visualization';
+import type { ViewStateChangeReason } from '../src/visualization';
+
+const levels: LevelData[] = [
+  { name: 'Stereo Madness', publisher: 'RobTop', difficulty: 1, youtubeUrl: 'https://youtu.be/JKS9s3lSEtE?t=5', gdBrowserUrl: null, commentary: '<p>First.</p>' },
+  { name: 'Bloodbath', publisher: 'Riot', difficulty: 50, youtubeUrl: null, gdBrowserUrl: 'https://gdbrowser.com/10565740', commentary: '' },
+  { name: 'Tartarus', publisher: 'Dolphy', difficulty: 100, youtubeUrl: null, gdBrowserUrl: null, commentary: '<p>Hardest.</p>' }
+];
+
+function bars(container: HTMLElement): SVGRectElement[] {
+  return Array.from(container.querySelectorAll<SVGRectElement>('rect.bar'));
+}
+
+function barHeights(container: HTMLElement): number[] {
+  return bars(container).map(bar => Number(bar.getAttribute('height')));
+}
+
+// Level names along the x-axis, left to right
+function axisOrder(container: HTMLElement): string[] {
+  const position = (tick: Element) => Number(/translate\(([-\d.]+)/.exec(tick.getAttribute('transform') ?? '')?.[1] ?? NaN);
+  return Array.from(container.querySelectorAll('.x-axis .tick'))
+    .sort((a, b) => position(a) - position(b))
+    .map(tick => tick.textContent ?? '');
+}
+
+function navButtons(): { back: HTMLButtonElement; forward: HTMLButtonElement } {
+  const buttons = Array.from(document.querySelectorAll<HTMLButtonElement>('.nav-container button'));
+  return {
+    back: buttons.find(button => button.textContent?.includes('Back'))!,
+    forward: buttons.find(button => button.textContent?.includes('Forward'))!
+  };
+}
+
+function detailsPanel(): HTMLElement {
+  return document.querySelector<HTMLElement>('.details-panel')!;
+}
+
+describe('GDVisualization', () => {
+  let container: HTMLDivElement;
+  let visualization: GDVisualization;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    visualization = new GDVisualization({ container, data: levels });
+  });
+
+  afterEach(() => {
+    visualization.destroy();
+    document.body.innerHTML = '';
+  });
+
+  it('starts with only the first level revealed and selected', () => {
+    visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(1);
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Stereo Madness');
+    expect(detailsPanel().textContent).toContain('RobTop');
+  });
+
+  it('disables Back at the start and Forward at the end', () => {
+    const { back, forward } = navButtons();
+    expect(back.disabled).toBe(true);
+    expect(forward.disabled).toBe(false);
+
+    visualization.goForward();
+    visualization.goForward();
+    expect(back.disabled).toBe(false);
+    expect(forward.disabled).toBe(true);
+  });
+
+  it('reveals one bar per step and selects the newest level', () => {
+    visualization.goForward();
+    visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(2);
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Bloodbath');
+    expect(detailsPanel().textContent).toContain('Difficulty: 50');
+    expect(detailsPanel().querySelector('a')?.getAttribute('href')).toBe('https://gdbrowser.com/10565740');
+  });
+
+  it('scales bar heights linearly to the hardest visible level', () => {
+    visualization.goForward();
+    visualization.goForward();
+    visualization.getSettledSvg();
+    const [easy, medium, hard] = barHeights(container);
+    expect(hard).toBeGreaterThan(0);
+    expect(medium / hard).toBeCloseTo(0.5);
+    expect(easy / hard).toBeCloseTo(0.01);
+  });
+
+  it('removes the last bar when going back', () => {
+    visualization.goForward();
+    visualization.goForward();
+    visualization.goBack();
+    visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(2);
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Bloodbath');
+    expect(navButtons().forward.disabled).toBe(false);
+  });
+
+  it('keeps the scale mode across Forward/Back and lifts small bars on a log scale', () => {
+    visualization.goForward();
+    visualization.goForward();
+    visualization.setScaleMode('log');
+    visualization.goBack();
+    visualization.goForward();
+    visualization.getSettledSvg();
+    expect(visualization.getScaleMode()).toBe('log');
+    const [easy, , hard] = barHeights(container);
+    expect(easy / hard).toBeGreaterThan(0.1);
+  });
+
+  it('shows a video thumbnail that loads the player only when clicked', () => {
+    expect(detailsPanel().querySelector('iframe')).toBeNull();
+    detailsPanel().querySelector<HTMLButtonElement>('.video-facade')!.click();
+    expect(detailsPanel().querySelector('iframe')?.getAttribute('src'))
+      .toBe('https://www.youtube-nocookie.com/embed/JKS9s3lSEtE?enablejsapi=1&autoplay=1&start=5');
+
+    // Updates that keep the selection leave the playing video alone
+    visualization.setScaleMode('log');
+    visualization.getSettledSvg();
+    expect(detailsPanel().querySelector('iframe')).not.toBeNull();
+  });
+
+  it('says so when a level has no video', () => {
+    visualization.goForward();
+    expect(detailsPanel().querySelector('.no-video')?.textContent).toBe('No video available for this level.');
+    expect(detailsPanel().querySelector('iframe, .video-facade')).toBeNull();
+  });
+
+  it('keeps pinned levels highlighted across Back and Forward', () => {
+    visualization.goForward();
+    visualization.togglePin(0);
+    visualization.togglePin(1);
+    visualization.goBack();
+    visualization.getSettledSvg();
+    expect(visualization.getPinnedLevels().map(level => level.name)).toEqual(['Stereo Madness', 'Bloodbath']);
+    expect(container.querySelectorAll('rect.bar.pinned')).toHaveLength(1);
+
+    visualization.goForward();
+    visualization.getSettledSvg();
+    expect(container.querySelectorAll('rect.bar.pinned')).toHaveLength(2);
+    expect(document.querySelector('.compare-button')?.textContent).toBe('Compare (2)');
+  });
+
+  it('compares pinned levels by ratio and gap', () => {
+    visualization.goForward();
+    visualization.goForward();
+    visualization.togglePin(0);
+    visualization.togglePin(1);
+    visualization.togglePin(2);
+    document.querySelector<HTMLButtonElement>('.compare-button')!.click();
+    const relations = Array.from(document.querySelectorAll('.compare-relation')).map(p => p.textContent);
+    expect(relations).toEqual([
+      'Easiest pinned level',
+      '50× as hard as Stereo Madness (+49)',
+      '2× as hard as Bloodbath (+50)',
+      '100× as hard as Stereo Madness'
+    ]);
+  });
+
+  it('colours bars by tier and hides tiers switched off in the legend', () => {
+    visualization.goForward();
+    visualization.goForward();
+    visualization.getSettledSvg();
+    expect(bars(container).map(bar => bar.style.fill)).toEqual([
+      'var(--tier-easy)',
+      'var(--tier-medium-demon)',
+      'var(--tier-hard-demon)'
+    ]);
+
+    const legendItems = Array.from(container.querySelectorAll<HTMLButtonElement>('.tier-legend-item'));
+    expect(legendItems.map(item => item.textContent)).toEqual(['Easy', 'Medium Demon', 'Hard Demon']);
+
+    legendItems[1].click();
+    visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(2);
+    expect(container.querySelector('.tier-legend-item[aria-pressed="false"]')?.textContent).toBe('Medium Demon');
+  });
+
+  it('moves the selection to the nearest shown bar when its tier is hidden', () => {
+    const reasons: ViewStateChangeReason[] = [];
+    visualization.destroy();
+    visualization = new GDVisualization({
+      container,
+      data: levels,
+      initialState: { visibleLevels: 3, selectedLevelIndex: 1 },
+      onViewStateChange: (_, reason) => reasons.push(reason)
+    });
+
+    visualization.toggleTier('Medium Demon');
+    expect(visualization.getViewState().selectedLevelIndex).toBe(0);
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Stereo Madness');
+    expect(reasons).toEqual(['select']);
+
+    // Arrow keys carry on from the new selection
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    expect(visualization.getViewState().selectedLevelIndex).toBe(2);
+  });
+
+  it('zooms around the selected level and shows the window on the overview', () => {
+    visualization.destroy();
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    const manyLevels = Array.from({ length: 20 }, (_, i): LevelData => ({
+      name: `Level ${i + 1}`, publisher: '', difficulty: i + 1, youtubeUrl: null, gdBrowserUrl: null, commentary: ''
+    }));
+    visualization = new GDVisualization({ container, data: manyLevels });
+    visualization.goToLevel(19);
+    visualization.getSettledSvg();
+    const shown = () => bars(container).filter(bar => bar.style.display !== 'none').length;
+    expect(shown()).toBe(20);
+
+    visualization.zoomBy(2);
+    expect(shown()).toBeLessThan(20);
+    expect(bars(container).at(-1)?.style.display).not.toBe('none');
+    expect(container.querySelector<SVGRectElement>('.overview-brush .selection')?.style.display).not.toBe('none');
+
+    // Selecting a level outside the zoomed window pans to it
+    visualization.goToLevel(0);
+    expect(bars(container)[0].style.display).not.toBe('none');
+
+    visualization.resetZoom();
+    expect(shown()).toBe(20);
+    expect(container.querySelector<SVGRectElement>('.overview-brush .selection')?.style.display).toBe('none');
+  });
+
+  it('applies updates immediately when animation is turned off', () => {
+    visualization.destroy();
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    visualization = new GDVisualization({ container, data: levels, animation: false });
+    visualization.goForward();
+    const [easy, hard] = barHeights(container);
+    expect(hard).toBeGreaterThan(0);
+    expect(easy / hard).toBeCloseTo(0.02);
+  });
+
+  it('skips transitions when the user prefers reduced motion', () => {
+    const originalMatchMedia = window.matchMedia;
+    window.matchMedia = ((query: string) => ({
+      matches: query === '(prefers-reduced-motion: reduce)',
+      addEventListener: () => {},
+      removeEventListener: () => {}
+    })) as unknown as typeof window.matchMedia;
+    try {
+      visualization.goForward();
+      expect(barHeights(container)[1]).toBeGreaterThan(0);
+    } finally {
+      window.matchMedia = originalMatchMedia;
+    }
+  });
+
+  it('keeps the revealed range and selection by name when the data is replaced', () => {
+    visualization.goForward();
+    visualization.setData([
+      { name: 'Retray', publisher: 'Dolphy', difficulty: 0.5, youtubeUrl: null, gdBrowserUrl: null, commentary: '' },
+      ...levels
+    ]);
+    visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(3);
+    expect(visualization.getViewState()).toMatchObject({ visibleLevels: 3, selectedLevelIndex: 2 });
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Bloodbath');
+  });
+
+  it('lists the revealed levels in the screen reader table, keeping the rows already there', () => {
+    const rows = () => Array.from(container.querySelectorAll<HTMLTableRowElement>('table tbody tr'));
+    visualization.goForward();
+    const [first] = rows();
+    visualization.goForward();
+    expect(rows().map(row => row.cells[0].textContent)).toEqual(['Stereo Madness', 'Bloodbath', 'Tartarus']);
+    expect(rows()[0]).toBe(first);
+
+    visualization.setData([{ ...levels[0], difficulty: 2 }, ...levels.slice(1)]);
+    expect(rows()[0]).toBe(first);
+    expect(first.cells[2].textContent).toBe('2');
+  });
+
+  it('removes its elements and window listeners on destroy', () => {
+    visualization.destroy();
+    expect(container.children).toHaveLength(0);
+    expect(document.querySelector('.details-panel, .nav-container, .compare-overlay')).toBeNull();
+    // Global shortcuts no longer reach the destroyed chart
+    expect(() => window.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageDown' }))).not.toThrow();
+    expect(() => window.dispatchEvent(new MouseEvent('mouseup'))).not.toThrow();
+  });
+
+  it('reveals levels in the chosen order, counted along the filtered sequence', () => {
+    visualization.setOrdering({ ...DEFAULT_ORDERING, revealOrder: 'descending' });
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Tartarus');
+    visualization.goForward();
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Bloodbath');
+    expect(visualization.getViewState().visibleLevels).toBe(2);
+
+    visualization.setOrdering({ ...DEFAULT_ORDERING, revealOrder: 'descending', filter: { publisher: 'Riot', minDifficulty: null, maxDifficulty: null } });
+    expect(visualization.getViewState()).toMatchObject({ visibleLevels: 1, selectedLevelIndex: 1 });
+    expect(visualization.canGoForward()).toBe(false);
+
+    // Going to a level the filter hides clears the filter
+    visualization.goToLevel(0);
+    expect(visualization.getViewState().ordering.filter.publisher).toBeNull();
+    expect(visualization.getViewState().visibleLevels).toBe(3);
+  });
+
+  it('reports an order change when going to a level clears the filters', () => {
+    visualization.destroy();
+    const reasons: ViewStateChangeReason[] = [];
+    visualization = new GDVisualization({ container, data: levels, onViewStateChange: (_, reason) => reasons.push(reason) });
+    visualization.filterByPublisher('Riot');
+    visualization.goToLevel(2);
+    expect(reasons).toEqual(['order', 'order']);
+    expect(visualization.getRevealSequence()).toHaveLength(3);
+  });
+
+  it('sorts the revealed bars along the x-axis and moves the selection in that order', () => {
+    visualization.setVisibleCount(3);
+    visualization.setOrdering({ ...DEFAULT_ORDERING, sortBy: 'name' });
+    visualization.getSettledSvg();
+    expect(axisOrder(container)).toEqual(['Bloodbath', 'Stereo Madness', 'Tartarus']);
+
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Home' }));
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Bloodbath');
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Stereo Madness');
+  });
+
+  it('says so when the filters leave no levels', () => {
+    visualization.setOrdering({ ...DEFAULT_ORDERING, filter: { publisher: null, minDifficulty: 500, maxDifficulty: null } });
+    visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(0);
+    expect(detailsPanel().textContent).toContain('No levels match');
+    expect(navButtons().forward.disabled).toBe(true);
+  });
+
+  it('ranks publishers by the chosen metric and filters the chart to the one clicked', () => {
+    visualization.setData([
+      ...levels,
+      { name: 'Sakupen Circles', publisher: 'Riot', difficulty: 80, youtubeUrl: null, gdBrowserUrl: null, commentary: '' }
+    ]);
+    document.querySelector<HTMLButtonElement>('.publishers-button')!.click();
+    const rowNames = () => Array.from(document.querySelectorAll('.publisher-row .publisher-name')).map(text => text.textContent);
+    expect(rowNames()).toEqual(['Riot', 'Dolphy', 'RobTop']);
+    expect(document.querySelector('.publisher-row title')?.textContent).toBe('Riot: 2 levels, hardest Sakupen Circles (80), median 65, total 130');
+
+    const metricSelect = document.querySelector<HTMLSelectElement>('.publisher-toolbar select')!;
+    metricSelect.value = 'hardest';
+    metricSelect.dispatchEvent(new Event('change'));
+    expect(rowNames()).toEqual(['Dolphy', 'Riot', 'RobTop']);
+
+    document.querySelectorAll<SVGGElement>('.publisher-row')[1].dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    expect(document.querySelector<HTMLElement>('.publisher-dialog')?.closest<HTMLElement>('.compare-overlay')?.hidden).toBe(true);
+    expect(visualization.getViewState().ordering.filter.publisher).toBe('Riot');
+    expect(visualization.getRevealSequence().map(level => level.name)).toEqual(['Bloodbath', 'Sakupen Circles']);
+  });
+
+  it('draws annotations from the list and saves the ones the viewer adds', () => {
+    visualization.destroy();
+    visualization = new GDVisualization({
+      container,
+      data: levels,
+      annotations: [
+        { kind: 'line', label: 'Human limit', difficulty: 25 },
+        { kind: 'callout', label: 'Top of the list', level: 'Tartarus' }
+      ],
+      storageKey: 'test'
+    });
+    const annotation = (label: string) => Array.from(container.querySelectorAll<SVGGElement>('.annotation'))
+      .find(g => g.textContent === label)!;
+
+    visualization.setVisibleCount(2);
+    visualization.getSettledSvg();
+    const linearTransform = annotation('Human limit').getAttribute('transform');
+    expect(annotation('Human limit').style.display).toBe('');
+    expect(annotation('Top of the list').style.display).toBe('none');
+
+    visualization.setScaleMode('log');
+    visualization.getSettledSvg();
+    expect(annotation('Human limit').getAttribute('transform')).not.toBe(linearTransform);
+
+    const menu = container.querySelector<HTMLDetailsElement>('.annotation-menu')!;
+    menu.querySelector('select')!.value = 'marker';
+    const label = menu.querySelector<HTMLInputElement>('input[type="text"]')!;
+    label.value = 'My hardest';
+    label.dispatchEvent(new Event('input'));
+    menu.querySelector<HTMLButtonElement>('.annotation-options > .nav-button')!.click();
+    expect(visualization.getAnnotations()).toHaveLength(3);
+    expect(annotation('My hardest').getAttribute('class')).toBe('annotation annotation-marker');
+    expect(menu.querySelector('summary')?.textContent).toBe('Annotations (1)');
+
+    // Saved per storage key, without the list's own annotations
+    visualization.destroy();
+    visualization = new GDVisualization({ container, data: levels, storageKey: 'test' });
+    expect(visualization.getAnnotations()).toEqual([{ kind: 'marker', label: 'My hardest', level: 'Bloodbath' }]);
+    container.querySelector<HTMLButtonElement>('.annotation-list button')!.click();
+    expect(visualization.getAnnotations()).toEqual([]);
+    window.localStorage.clear();
+  });
+
+  it('marks progress, draws the "you are here" line and imports progress files', async () => {
+    visualization.destroy();
+    visualization = new GDVisualization({ container, data: levels, storageKey: 'test' });
+    visualization.setVisibleCount(3);
+    visualization.goToLevel(0);
+    detailsPanel().querySelector<HTMLButtonElement>('.progress-button[data-progress="beaten"]')!.click();
+    visualization.setProgress(1, 'beaten');
+    visualization.setProgress(2, 'in-progress');
+    visualization.getSettledSvg();
+    expect(container.querySelectorAll('rect.bar.beaten')).toHaveLength(2);
+    expect(container.querySelectorAll('rect.bar.in-progress')).toHaveLength(1);
+    expect(container.querySelector('.annotation-you-are-here')?.textContent).toBe('You are here · next: Tartarus, 2× harder');
+    expect(container.querySelector('.progress-description')?.textContent)
+      .toBe('Bloodbath is your hardest completion. Next up: Tartarus, 2× harder.');
+
+    // Pressing the active button again clears the mark
+    visualization.goToLevel(2);
+    detailsPanel().querySelector<HTMLButtonElement>('.progress-button[data-progress="in-progress"]')!.click();
+    expect(visualization.getProgress(2)).toBeNull();
+    expect(JSON.parse(window.localStorage.getItem('gd-viz:progress:test')!)).toEqual({
+      version: 1,
+      progress: { 'Stereo Madness': 'beaten', Bloodbath: 'beaten' }
+    });
+
+    const menu = container.querySelector('.progress-menu')!;
+    const input = menu.querySelector<HTMLInputElement>('input[type="file"]')!;
+    const file = new File([JSON.stringify({ version: 1, progress: { Tartarus: 'beaten', Bloodbath: 'in-progress' } })], 'progress.json');
+    Object.defineProperty(input, 'files', { value: [file], configurable: true });
+    input.dispatchEvent(new Event('change'));
+    await vi.waitFor(() => expect(visualization.getProgress(2)).toBe('beaten'));
+    expect(visualization.getProgress(1)).toBe('in-progress');
+    expect(visualization.getProgressSummary()).toMatchObject({ beaten: 2, inProgress: 1, next: null });
+    expect(menu.querySelector('.progress-status')?.textContent).toBe('Imported progress on 2 levels.');
+    window.localStorage.clear();
+  });
+
+  it('keeps separate progress for each level list', () => {
+    visualization.destroy();
+    visualization = new GDVisualization({ container, data: levels, storageKey: 'first' });
+    visualization.setProgress(1, 'beaten');
+    visualization.destroy();
+
+    visualization = new GDVisualization({ container, data: levels, storageKey: 'second' });
+    expect(visualization.getProgress(1)).toBeNull();
+    visualization.setProgress(2, 'in-progress');
+    visualization.destroy();
+
+    visualization = new GDVisualization({ container, data: levels, storageKey: 'first' });
+    expect(visualization.getProgress(1)).toBe('beaten');
+    expect(visualization.getProgress(2)).toBeNull();
+    window.localStorage.clear();
+  });
+
+  it('renders commentary in the details panel', () => {
+    expect(detailsPanel().querySelector('.commentary-content')?.textContent).toBe('First.');
+  });
+});
+
+describe('GDVisualization canvas renderer', () => {
+  let container: HTMLDivElement;
+  let visualization: GDVisualization;
+  let context: { [method: string]: ReturnType<typeof vi.fn> };
+
+  // jsdom has no canvas; record the drawing calls instead
+  beforeEach(() => {
+    context = Object.fromEntries(
+      ['setTransform', 'clearRect', 'fillRect', 'beginPath', 'rect', 'fill', 'strokeRect', 'setLineDash'].map(method => [method, vi.fn()])
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as unknown as CanvasRenderingContext2D);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    visualization.destroy();
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  // Centre of a level's column in client coordinates (jsdom puts the SVG at 0,0)
+  function clientPoint(name: string): { clientX: number; clientY: number } {
+    const tick = Array.from(container.querySelectorAll<SVGGElement>('.x-axis .tick'))
+      .find(t => t.textContent === name)!;
+    const x = Number(/translate\(([\d.]+)/.exec(tick.getAttribute('transform')!)![1]);
+    return { clientX: 60 + x, clientY: 20 + 10 };
+  }
+
+  it('draws the bars on a canvas and hit-tests clicks on the chart', () => {
+    visualization = new GDVisualization({ container, data: levels, renderer: 'canvas' });
+    visualization.setVisibleCount(3);
+    const svg = visualization.getSettledSvg();
+    expect(bars(container)).toHaveLength(0);
+    expect(container.querySelectorAll('.click-area')).toHaveLength(0);
+    expect(container.querySelector('foreignObject.bar-canvas canvas')).not.toBeNull();
+    expect(context.rect.mock.calls.length).toBeGreaterThanOrEqual(3);
+
+    svg.dispatchEvent(new MouseEvent('click', { bubbles: true, ...clientPoint('Stereo Madness') }));
+    expect(visualization.getViewState().selectedLevelIndex).toBe(0);
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Stereo Madness');
+
+    svg.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true, ...clientPoint('Bloodbath') }));
+    expect(visualization.isPinned(1)).toBe(true);
+    expect(context.strokeRect).toHaveBeenCalled();
+  });
+
+  it('thins the x-axis labels for thousands of levels', () => {
+    const manyLevels = Array.from({ length: 5000 }, (_, i): LevelData => ({
+      name: `Level ${i + 1}`, publisher: '', difficulty: i + 1, youtubeUrl: null, gdBrowserUrl: null, commentary: ''
+    }));
+    visualization = new GDVisualization({ container, data: manyLevels, renderer: 'canvas' });
+    visualization.setVisibleCount(5000);
+    visualization.getSettledSvg();
+    const ticks = container.querySelectorAll('.x-axis .tick');
+    expect(ticks.length).toBeGreaterThan(0);
+    expect(ticks.length).toBeLessThan(100);
+    expect(visualization.goTo('Level 4321')).toBe(true);
+    expect(detailsPanel().querySelector('h2')?.textContent).toBe('Level 4321');
+  });
+});
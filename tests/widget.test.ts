@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { LevelData } from '../src/dataParser';
+import '../src/widget';
+import type { LevelSelectedDetail, RevealChangedDetail } from '../src/widget';
+
+const levels: LevelData[] = [
+  { name: 'Stereo Madness', publisher: 'RobTop', difficulty: 1, youtubeUrl: null, gdBrowserUrl: null, commentary: '' },
+  { name: 'Bloodbath', publisher: 'Riot', difficulty: 50, youtubeUrl: null, gdBrowserUrl: null, commentary: '' },
+  { name: 'Tartarus', publisher: 'Dolphy', difficulty: 100, youtubeUrl: null, gdBrowserUrl: null, commentary: '' }
+];
+
+function createChart(): HTMLElementTagNameMap['gd-difficulty-chart'] {
+  const chart = document.createElement('gd-difficulty-chart');
+  chart.levels = levels;
+  document.body.appendChild(chart);
+  return chart;
+}
+
+describe('<gd-difficulty-chart>', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('renders the chart, panel and buttons inside the element', () => {
+    const first = createChart();
+    const second = createChart();
+    for (const chart of [first, second]) {
+      expect(chart.querySelector('svg')).not.toBeNull();
+      expect(chart.querySelector('.details-panel')?.textContent).toContain('Stereo Madness');
+      expect(chart.querySelector('.nav-container')).not.toBeNull();
+      // The compare and publisher dialogs too, so they take the element's theme
+      expect(chart.querySelectorAll('.compare-overlay')).toHaveLength(2);
+    }
+    expect(document.querySelectorAll('body > .details-panel, body > .nav-container, body > .compare-overlay')).toHaveLength(0);
+  });
+
+  it('validates levels given as a property and reports what it dropped', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const table = vi.spyOn(console, 'table').mockImplementation(() => {});
+    const chart = document.createElement('gd-difficulty-chart');
+    chart.levels = [...levels, { ...levels[0] }, { ...levels[1], name: 'Broken', difficulty: NaN }];
+    document.body.appendChild(chart);
+
+    expect(chart.levels?.map(level => level.name)).toEqual(['Stereo Madness', 'Bloodbath', 'Tartarus']);
+    expect(warn).toHaveBeenCalledWith('<gd-difficulty-chart> levels property: 2 error(s) and 0 warning(s) in level data');
+    expect(table.mock.calls[0][0]).toHaveLength(2);
+    warn.mockRestore();
+    table.mockRestore();
+  });
+
+  it('fires revealchanged and levelselected from the public methods', () => {
+    const chart = createChart();
+    const reveals: RevealChangedDetail[] = [];
+    const selections: LevelSelectedDetail[] = [];
+    chart.addEventListener('revealchanged', ev => reveals.push(ev.detail));
+    chart.addEventListener('levelselected', ev => selections.push(ev.detail));
+
+    chart.setVisibleCount(2);
+    expect(reveals).toEqual([{ visibleLevels: 2, totalLevels: 3 }]);
+    expect(selections.map(detail => detail.level.name)).toEqual(['Bloodbath']);
+
+    expect(chart.goTo('Stereo Madness')).toBe(true);
+    expect(reveals).toHaveLength(1);
+    expect(selections.at(-1)).toEqual({ level: levels[0], index: 0 });
+
+    expect(chart.goTo('Not a level')).toBe(false);
+  });
+
+  it('only handles keyboard shortcuts while focus is inside it', () => {
+    const chart = createChart();
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageDown' }));
+    expect(chart.querySelectorAll('rect.bar')).toHaveLength(1);
+
+    chart.querySelector('svg')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'PageDown', bubbles: true }));
+    expect(chart.querySelectorAll('rect.bar')).toHaveLength(2);
+  });
+
+  it('sanitizes commentary passed in through the levels property', () => {
+    const chart = document.createElement('gd-difficulty-chart');
+    chart.levels = [{ ...levels[0], commentary: '<p>Fine</p><img src="x" onerror="alert(1)"><script>alert(2)</script>' }];
+    document.body.appendChild(chart);
+
+    const commentary = chart.querySelector('.commentary-content')!;
+    expect(commentary.querySelector('p')?.textContent).toBe('Fine');
+    expect(commentary.querySelector('script')).toBeNull();
+    expect(commentary.querySelector('img')?.hasAttribute('onerror')).toBe(false);
+  });
+
+  it('follows system theme changes unless given a fixed theme', () => {
+    let prefersLight = false;
+    const queries = new Map<string, EventTarget>();
+    vi.stubGlobal('matchMedia', (query: string) => {
+      const target = queries.get(query) ?? new EventTarget();
+      queries.set(query, target);
+      return Object.assign(target, { matches: query === '(prefers-color-scheme: light)' && prefersLight });
+    });
+    const changeColorScheme = (light: boolean) => {
+      prefersLight = light;
+      queries.get('(prefers-color-scheme: light)')?.dispatchEvent(new Event('change'));
+    };
+
+    const chart = createChart();
+    expect(chart.dataset.theme).toBe('dark');
+    changeColorScheme(true);
+    expect(chart.dataset.theme).toBe('light');
+
+    chart.setAttribute('theme', 'high-contrast');
+    changeColorScheme(false);
+    expect(chart.dataset.theme).toBe('high-contrast');
+
+    chart.setAttribute('theme', 'system');
+    expect(chart.dataset.theme).toBe('dark');
+    chart.remove();
+    changeColorScheme(true);
+    expect(chart.dataset.theme).toBe('dark');
+    vi.unstubAllGlobals();
+  });
+
+  it('removes everything it created on destroy', () => {
+    const chart = createChart();
+    chart.destroy();
+    expect(chart.children).toHaveLength(0);
+    expect(chart.classList.contains('gd-chart')).toBe(false);
+    expect(document.querySelector('.compare-overlay')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseTimestamp, parseYouTubeUrl, youTubeEmbedUrl } from '../src/youtube';
+
+describe('parseYouTubeUrl', () => {
+  it.each([
+    'https://www.youtube.com/watch?v=JKS9s3lSEtE',
+    'https://youtube.com/watch?feature=share&v=JKS9s3lSEtE',
+    'https://m.youtube.com/watch?v=JKS9s3lSEtE',
+    'https://youtu.be/JKS9s3lSEtE',
+    'https://www.youtube.com/embed/JKS9s3lSEtE',
+    'https://www.youtube-nocookie.com/embed/JKS9s3lSEtE',
+    'https://www.youtube.com/shorts/JKS9s3lSEtE',
+    'https://www.youtube.com/live/JKS9s3lSEtE'
+  ])('finds the video id in %s', url => {
+    expect(parseYouTubeUrl(url)?.id).toBe('JKS9s3lSEtE');
+  });
+
+  it('reads start times and playlists', () => {
+    expect(parseYouTubeUrl('https://www.youtube.com/watch?v=JKS9s3lSEtE&t=1m30s&list=PL123abc')).toEqual({
+      id: 'JKS9s3lSEtE',
+      start: 90,
+      playlist: 'PL123abc'
+    });
+    expect(parseYouTubeUrl('https://youtu.be/JKS9s3lSEtE?t=42')?.start).toBe(42);
+  });
+
+  it('rejects other hosts, missing ids and malformed URLs', () => {
+    expect(parseYouTubeUrl('https://vimeo.com/12345')).toBeNull();
+    expect(parseYouTubeUrl('https://www.youtube.com/channel/UCabc')).toBeNull();
+    expect(parseYouTubeUrl('https://www.youtube.com/watch?v=short')).toBeNull();
+    expect(parseYouTubeUrl('not a url')).toBeNull();
+    expect(parseYouTubeUrl(null)).toBeNull();
+  });
+});
+
+describe('parseTimestamp', () => {
+  it.each([
+    ['90', 90],
+    ['90s', 90],
+    ['1m30s', 90],
+    ['1h2m3s', 3723],
+    ['1:30', 90],
+    ['1:02:03', 3723]
+  ])('parses %s', (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds);
+  });
+
+  it('returns null for garbage', () => {
+    expect(parseTimestamp('soon')).toBeNull();
+  });
+});
+
+describe('youTubeEmbedUrl', () => {
+  it('builds a privacy-enhanced URL with start time and playlist', () => {
+    const url = youTubeEmbedUrl({ id: 'JKS9s3lSEtE', start: 90, playlist: 'PL123abc' }, true);
+    expect(url).toBe('https://www.youtube-nocookie.com/embed/JKS9s3lSEtE?enablejsapi=1&autoplay=1&start=90&list=PL123abc');
+  });
+});
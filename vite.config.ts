@@ -1,5 +1,47 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
+import { BLOG_POST_URL, SNAPSHOT_FILE_NAME } from "./src/dataParser";
 
-export default defineConfig({
+// Saves a copy of the blog post into dist so the app still works when the blog is down.
+// The HTML is parsed in the browser like the live post; a failed fetch only warns.
+function blogSnapshot(): Plugin {
+    return {
+        name: 'blog-snapshot',
+        apply: 'build',
+        async generateBundle() {
+            try {
+                const response = await fetch(BLOG_POST_URL, { signal: AbortSignal.timeout(15000) });
+                if (!response.ok) {
+                    throw new Error(response.statusText);
+                }
+                this.emitFile({ type: 'asset', fileName: SNAPSHOT_FILE_NAME, source: await response.text() });
+            } catch (error) {
+                this.warn(`Skipping blog snapshot, could not fetch ${BLOG_POST_URL}: ${error}`);
+            }
+        },
+    };
+}
+
+// `vite build --mode widget` builds the embeddable <gd-difficulty-chart> element as an ES module
+// (d3 bundled in) plus its stylesheet, instead of the standalone page.
+const widgetBuild = {
+    outDir: 'dist/widget',
+    lib: {
+        entry: 'src/widget.ts',
+        formats: ['es' as const],
+        fileName: 'gd-difficulty-chart',
+        cssFileName: 'gd-difficulty-chart',
+    },
+};
+
+export default defineConfig(({ mode }) => ({
     base: '/gd-difficulty-visualization/',
-})
+    plugins: mode === 'widget' ? [] : [blogSnapshot()],
+    build: mode === 'widget' ? widgetBuild : undefined,
+    test: {
+        environment: 'jsdom',
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
+    },
+}))